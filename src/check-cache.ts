@@ -0,0 +1,129 @@
+// src/check-cache.ts
+import { createHash, randomUUID } from "node:crypto";
+import type { CheckCacheStats, CheckCacheStore, PermissionContext, SubjectReference } from "./types";
+
+const PREFIX = "spicedb:check";
+
+export interface CachedCheck {
+  resource: SubjectReference;
+  permission: string;
+  subject: SubjectReference;
+  context?: PermissionContext;
+}
+
+/**
+ * In-memory check cache store used when no custom store is configured.
+ * Evicts the least recently used entries once `maxEntries` is reached.
+ */
+export function createMemoryCheckStore(maxEntries = 10_000): CheckCacheStore {
+  const entries = new Map<string, { value: string; expiresAt: number }>();
+
+  return {
+    get: (key) => {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      // Re-insert so the key moves to the end of the eviction order
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.value;
+    },
+    set: (key, value, ttlSeconds) => {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: ttlSeconds ? Date.now() + ttlSeconds * 1000 : Infinity });
+
+      if (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest !== undefined) entries.delete(oldest);
+      }
+    },
+  };
+}
+
+/**
+ * Caches check results keyed on resource, permission, subject and context.
+ * Stores cannot list keys by object, so each result records the version of its
+ * resource and subject; a write bumps the versions of the objects it touches.
+ */
+export function createCheckCache(ttlSeconds: number, getStore: () => CheckCacheStore) {
+  let hits = 0;
+  let misses = 0;
+
+  // "*" versions every cached result, for deletes that cannot be narrowed to an object
+  const versionKey = (object: SubjectReference | "*") =>
+    object === "*" ? `${PREFIX}:v:*` : `${PREFIX}:v:${object.type}:${object.id}`;
+
+  const entryKey = (check: CachedCheck) =>
+    `${PREFIX}:${createHash("sha256").update(JSON.stringify([
+      check.resource.type,
+      check.resource.id,
+      check.permission,
+      check.subject.type,
+      check.subject.id,
+      check.subject.relation ?? "",
+      check.context ?? null,
+    ])).digest("hex")}`;
+
+  const versions = async (check: CachedCheck) => {
+    const store = getStore();
+    const values = await Promise.all(
+      [versionKey(check.resource), versionKey(check.subject), versionKey("*")].map((key) => store.get(key))
+    );
+    return values.map((value) => String(value ?? "0")).join(":");
+  };
+
+  /**
+   * Look a check up; on a miss, `save` stores the answer under the versions read
+   * before SpiceDB was asked, so a write in between leaves it stale instead of wrong
+   */
+  const lookup = async (check: CachedCheck) => {
+    try {
+      const key = entryKey(check);
+      const [current, stored] = await Promise.all([versions(check), getStore().get(key)]);
+      const entry = typeof stored === "string" ? JSON.parse(stored) as { allowed: boolean; versions: string } : undefined;
+
+      if (entry && entry.versions === current) {
+        hits++;
+        return { allowed: entry.allowed, save: async () => {} };
+      }
+      misses++;
+      return {
+        allowed: undefined,
+        save: async (allowed: boolean) => {
+          try {
+            await getStore().set(key, JSON.stringify({ allowed, versions: current }), ttlSeconds);
+          } catch (err) {
+            console.error("[spicedb] Failed to cache check:", err);
+          }
+        },
+      };
+    } catch (err) {
+      // An unavailable store must not fail the check itself
+      console.error("[spicedb] Check cache lookup failed:", err);
+      misses++;
+      return { allowed: undefined, save: async (_allowed: boolean) => {} };
+    }
+  };
+
+  // Results older than the versions set here no longer match
+  const invalidate = async (objects: Array<SubjectReference | "*">) => {
+    const version = randomUUID();
+    const keys = [...new Set(objects.map(versionKey))];
+    try {
+      await Promise.all(keys.map(async (key) => getStore().set(key, version, ttlSeconds)));
+    } catch (err) {
+      console.error("[spicedb] Failed to invalidate cached checks:", err);
+    }
+  };
+
+  const stats = (): CheckCacheStats => ({
+    hits,
+    misses,
+    hitRate: hits + misses ? hits / (hits + misses) : 0,
+  });
+
+  return { lookup, invalidate, stats };
+}
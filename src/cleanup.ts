@@ -0,0 +1,89 @@
+// src/cleanup.ts
+import type {
+  CleanupOptions,
+  CleanupReport,
+  RelationshipFilter,
+  RelationshipRecord,
+  ResourceCleanupMapping,
+  SubjectReference,
+} from "./types";
+
+export interface CleanupDeps {
+  readRelationships: (filter: RelationshipFilter, pageSize: number) => AsyncIterable<RelationshipRecord>;
+  deleteRelationships: (filter: RelationshipFilter, limit: number) => Promise<string | undefined>;
+}
+
+const logReport = (report: CleanupReport) => {
+  const object = `${report.object.type}:${report.object.id}`;
+  if (report.removed.length) {
+    console.log(`[spicedb] Removed ${report.removed.length} relationships of ${object} (${report.trigger})`);
+  }
+  for (const filter of report.limitExceeded) {
+    console.error(`[spicedb] Skipped cleanup of ${object} on ${filter.resourceType}: more than the configured limit matched`);
+  }
+};
+
+/**
+ * Removes the relationships of deleted objects, bounded by a per-filter limit
+ */
+export function createCleanup(options: CleanupOptions, deps: CleanupDeps) {
+  const limit = options.limit ?? 1000;
+  const onReport = options.onReport ?? logReport;
+
+  const cleanup = async (trigger: string, object: SubjectReference, filters: RelationshipFilter[]) => {
+    if (filters.length === 0) return undefined;
+    const report: CleanupReport = { trigger, object, removed: [], limitExceeded: [] };
+
+    for (const filter of filters) {
+      // Read one past the limit to find out whether the filter is over it
+      const matched: RelationshipRecord[] = [];
+      for await (const relationship of deps.readRelationships(filter, Math.min(limit + 1, 1000))) {
+        matched.push(relationship);
+        if (matched.length > limit) break;
+      }
+
+      if (matched.length > limit) {
+        report.limitExceeded.push(filter);
+        continue;
+      }
+      if (matched.length === 0) continue;
+
+      // The limit also guards the delete itself: SpiceDB deletes nothing if more now match
+      report.zedToken = await deps.deleteRelationships(filter, limit) ?? report.zedToken;
+      report.removed.push(...matched);
+    }
+
+    await onReport(report);
+    return report;
+  };
+
+  // Relationships where the object is the subject, on each of the given resource types
+  const subjectFilters = (object: SubjectReference, resourceTypes: string[]) =>
+    resourceTypes.map((resourceType) => ({ resourceType, subject: { type: object.type, id: object.id } }));
+
+  const cleanupUser = (userId: string) => {
+    const user = { type: "user", id: userId };
+    return cleanup("user.deleted", user, subjectFilters(user, options.userResourceTypes ?? []));
+  };
+
+  const cleanupSession = (sessionId: string) => {
+    const session = { type: "session", id: sessionId };
+    return cleanup("session.deleted", session, subjectFilters(session, options.sessionResourceTypes ?? []));
+  };
+
+  // Relationships on the resource itself, then those where it is the subject
+  const cleanupResource = async (mapping: ResourceCleanupMapping, event: any) => {
+    const resource = { type: mapping.resourceType, id: mapping.resourceId(event) };
+    // Without an ID the filter would match every resource of the type
+    if (!resource.id) {
+      console.warn(`[spicedb] Skipping cleanup of ${mapping.resourceType} - missing ID in event:`, event);
+      return undefined;
+    }
+    return cleanup(mapping.on, resource, [
+      { resourceType: resource.type, resourceId: resource.id },
+      ...subjectFilters(resource, mapping.subjectOf ?? []),
+    ]);
+  };
+
+  return { cleanupUser, cleanupSession, cleanupResource };
+}
@@ -0,0 +1,62 @@
+#!/usr/bin/env node
+// src/cli.ts
+import { readFileSync, writeFileSync, mkdirSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { generateTypes } from "./codegen";
+
+const USAGE = `Usage: better-auth-spicedb generate [options]
+
+Options:
+  --schema <path>   Path to the schema.zed file (default: ./schema.zed)
+  --out <path>      Output file (default: print to stdout)
+  --type <name>     Name of the exported type (default: SpiceDBSchema)
+  --help            Show this message`;
+
+const parseArgs = (argv: string[]) => {
+  const args: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) continue;
+
+    const [key, inlineValue] = arg.slice(2).split("=", 2);
+    if (inlineValue !== undefined) {
+      args[key] = inlineValue;
+    } else if (argv[i + 1] && !argv[i + 1].startsWith("--")) {
+      args[key] = argv[++i];
+    } else {
+      args[key] = true;
+    }
+  }
+  return args;
+};
+
+const main = () => {
+  const [command, ...rest] = process.argv.slice(2);
+  const args = parseArgs(rest);
+
+  if (command !== "generate" || args.help) {
+    console.log(USAGE);
+    process.exit(command === "generate" || command === "--help" ? 0 : 1);
+  }
+
+  const schemaPath = resolve(typeof args.schema === "string" ? args.schema : "schema.zed");
+  const output = generateTypes(readFileSync(schemaPath, "utf8"), {
+    typeName: typeof args.type === "string" ? args.type : undefined,
+  });
+
+  if (typeof args.out === "string") {
+    const outPath = resolve(args.out);
+    mkdirSync(dirname(outPath), { recursive: true });
+    writeFileSync(outPath, output);
+    console.log(`[spicedb] Generated types from ${schemaPath} → ${outPath}`);
+  } else {
+    process.stdout.write(output);
+  }
+};
+
+try {
+  main();
+} catch (err: any) {
+  console.error(`[spicedb] ${err.message}`);
+  process.exit(1);
+}
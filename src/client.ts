@@ -1,55 +1,277 @@
 import type { BetterAuthClientPlugin } from "better-auth";
 import type { 
     SpiceDBPluginOptions, 
+    SchemaDefinition,
+    AnySchema,
     BulkCheckParams, 
     BulkCheckResult,
+    BulkCheckItem,
+    PermissionStore,
     LookupResourcesParams,
     LookupResourcesResult,
+    LookupSubjectsParams,
+    LookupSubjectsResult,
+    ExpandPermissionParams,
+    ExpandPermissionResult,
+    ReadRelationshipsParams,
+    ReadRelationshipsResult,
+    DeleteRelationshipsParams,
+    DeleteRelationshipsResult,
     CheckPermissionParams,
     CheckPermissionResult,
     WriteRelationshipParams,
-    RelationshipResult
+    WriteRelationshipsParams,
+    RelationshipResult,
+    OutboxItem,
+    ReconcileParams,
+    ReconcileResult,
+    RelationshipChange,
+    WatchChangesOptions
 } from "./types";
+import { createPermissionCache } from "./permissions";
 
-export const spiceDBClient = (options?: SpiceDBPluginOptions) => {
+// Parse a server-sent event stream, calling onEvent for each complete message
+const readEvents = async (body: ReadableStream<Uint8Array>, onEvent: (event: string, data: string) => void) => {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (true) {
+        const { value, done } = await reader.read();
+        if (done) return;
+        buffer += decoder.decode(value, { stream: true });
+
+        const messages = buffer.split("\n\n");
+        buffer = messages.pop() ?? "";
+        for (const message of messages) {
+            let event = "message";
+            const data: string[] = [];
+            for (const line of message.split("\n")) {
+                if (line.startsWith("event:")) event = line.slice(6).trim();
+                else if (line.startsWith("data:")) data.push(line.slice(5).trim());
+            }
+            // Comment-only messages are heartbeats
+            if (data.length) onEvent(event, data.join("\n"));
+        }
+    }
+};
+
+type ServerPlugin = ReturnType<typeof import("./server").spicedb>;
+type InferredServerPlugin = Omit<ServerPlugin, "endpoints"> & {
+    endpoints: Pick<ServerPlugin["endpoints"], "spicedbDrainOutbox">;
+};
+
+export const spiceDBClient = <S extends SchemaDefinition = AnySchema>(options?: SpiceDBPluginOptions<S>) => {
     return {
         id: "spicedb",
-        $InferServerPlugin: {} as ReturnType<typeof import("./server").spicedb>,
+        // Endpoint signatures are inferred from their zod bodies (`permission: string`) and would widen
+        // the schema-typed actions below, so only endpoints without an action are inferred
+        $InferServerPlugin: {} as InferredServerPlugin,
         
         // This maps 'authClient.spicedb.methodName' -> API calls
-        getActions: ($fetch : any) => ({
-            spicedb: {
-                check: async (params: CheckPermissionParams) => {
-                    const result = await $fetch("/spicedb/check", {
-                        method: "POST",
-                        body: params
-                    });
-                    return result as CheckPermissionResult;  
-                },
-                checkBulk: async (params: BulkCheckParams) => {
-                    const result = await $fetch("/spicedb/check-bulk", {
-                        method: "POST",
-                        body: params
-                    });
-                    return result as BulkCheckResult;
-                },
-                lookupResources: async (params: LookupResourcesParams) => {
-                    const result = await $fetch("/spicedb/lookup-resources", {
-                        method: "POST",
-                        body: params,
-                        credentials: 'include' // Include cookies for session auth
-                    });
-                    return result as LookupResourcesResult;
-                },
-                // Admin only
-                writeRelationship: async (params: WriteRelationshipParams) => {
-                    const result = await $fetch("/spicedb/write-relationship", {
-                        method: "POST",
-                        body: params
-                    });
-                    return result as RelationshipResult;
+        getActions: ($fetch: any, $store: any) => {
+            const permissions = createPermissionCache(async (checks, consistency) => {
+                const { data, error } = await $fetch("/spicedb/check-bulk", {
+                    method: "POST",
+                    body: { checks, consistency }
+                });
+                if (error) throw new Error(error.message ?? error.statusText ?? "Permission check failed");
+                return data as BulkCheckResult;
+            });
+
+            // Answers belong to the signed-in user; start over when another one signs in
+            let sessionId: string | null | undefined;
+            let watchingSession = false;
+            const watchSession = () => {
+                const session = $store.atoms.session;
+                if (watchingSession || !session) return;
+                watchingSession = true;
+
+                const track = (value: any) => {
+                    if (value?.isPending) return;
+                    const id = value?.data?.session?.id ?? null;
+                    if (sessionId !== undefined && id !== sessionId) permissions.reset();
+                    sessionId = id;
+                };
+                track(session.get());
+                session.listen(track);
+            };
+
+            // Writes made through this client return a ZedToken; later checks must see them
+            const afterWrite = <T>(result: T) => {
+                const { data } = result as { data?: { zedToken?: string } };
+                if (data?.zedToken) permissions.invalidate(data.zedToken);
+                return result;
+            };
+
+            return {
+                spicedb: {
+                    check: async (params: CheckPermissionParams<S>) => {
+                        const result = await $fetch("/spicedb/check", {
+                            method: "POST",
+                            body: params
+                        });
+                        return result as CheckPermissionResult;  
+                    },
+                    /**
+                     * Reactive check: every `can()` made in the same tick is sent as one
+                     * check-bulk request, and identical checks share one cached answer
+                     */
+                    can: (params: BulkCheckItem<S>): PermissionStore => {
+                        watchSession();
+                        return permissions.can(params);
+                    },
+                    /**
+                     * Re-ask every subscribed `can()`, at least as fresh as `zedToken` when given,
+                     * e.g. after a write made on the server
+                     */
+                    invalidatePermissions: (zedToken?: string) => permissions.invalidate(zedToken),
+                    checkBulk: async (params: BulkCheckParams<S>) => {
+                        const result = await $fetch("/spicedb/check-bulk", {
+                            method: "POST",
+                            body: params
+                        });
+                        return result as BulkCheckResult<S>;
+                    },
+                    lookupResources: async (params: LookupResourcesParams<S>) => {
+                        const result = await $fetch("/spicedb/lookup-resources", {
+                            method: "POST",
+                            body: params,
+                            credentials: 'include' // Include cookies for session auth
+                        });
+                        return result as LookupResourcesResult;
+                    },
+                    lookupSubjects: async (params: LookupSubjectsParams<S>) => {
+                        const result = await $fetch("/spicedb/lookup-subjects", {
+                            method: "POST",
+                            body: params
+                        });
+                        return result as LookupSubjectsResult;
+                    },
+                    // Admin only
+                    expand: async (params: ExpandPermissionParams<S>) => {
+                        const result = await $fetch("/spicedb/expand", {
+                            method: "POST",
+                            body: params
+                        });
+                        return result as ExpandPermissionResult;
+                    },
+                    // Admin only
+                    readRelationships: async (params: ReadRelationshipsParams<S>) => {
+                        const result = await $fetch("/spicedb/relationships", {
+                            method: "POST",
+                            body: params
+                        });
+                        return result as ReadRelationshipsResult;
+                    },
+                    // Admin only
+                    writeRelationship: async (params: WriteRelationshipParams<S>) => {
+                        const result = await $fetch("/spicedb/write-relationship", {
+                            method: "POST",
+                            body: params
+                        });
+                        return afterWrite(result) as RelationshipResult;
+                    },
+                    // Admin only
+                    writeRelationships: async (params: WriteRelationshipsParams<S>) => {
+                        const result = await $fetch("/spicedb/write-relationships", {
+                            method: "POST",
+                            body: params
+                        });
+                        return afterWrite(result) as RelationshipResult;
+                    },
+                    // Admin only
+                    deleteRelationship: async (params: WriteRelationshipParams<S>) => {
+                        const result = await $fetch("/spicedb/delete-relationship", {
+                            method: "POST",
+                            body: params
+                        });
+                        return afterWrite(result) as RelationshipResult;
+                    },
+                    // Admin only
+                    deleteRelationships: async (params: DeleteRelationshipsParams<S>) => {
+                        const result = await $fetch("/spicedb/delete-relationships", {
+                            method: "POST",
+                            body: params
+                        });
+                        return afterWrite(result) as DeleteRelationshipsResult;
+                    },
+                    // Admin only
+                    reconcile: async (params?: ReconcileParams) => {
+                        const result = await $fetch("/spicedb/reconcile", {
+                            method: "POST",
+                            body: params ?? {}
+                        });
+                        return result as ReconcileResult;
+                    },
+                    // Admin only
+                    listOutbox: async (params?: { status?: OutboxItem["status"]; limit?: number }) => {
+                        const result = await $fetch("/spicedb/outbox", {
+                            method: "GET",
+                            query: params
+                        });
+                        return result as { items: OutboxItem[] };
+                    },
+                    // Admin only
+                    retryOutbox: async (params?: { ids?: string[] }) => {
+                        const result = await $fetch("/spicedb/outbox/retry", {
+                            method: "POST",
+                            body: params ?? {}
+                        });
+                        return result as { requeued: number };
+                    },
+                    /**
+                     * Subscribe to relationship changes where the signed-in user is the subject,
+                     * e.g. to refetch permissions; returns a function that unsubscribes
+                     */
+                    watch: (onChange: (change: RelationshipChange) => void, params: WatchChangesOptions = {}) => {
+                        const controller = new AbortController();
+                        let fromToken: string | undefined;
+
+                        const connect = () => $fetch("/spicedb/watch", {
+                            method: "GET",
+                            query: { objectTypes: params.objectTypes?.join(","), fromToken },
+                            signal: controller.signal,
+                            // Consume the stream here; better-fetch would otherwise wait for it to end before resolving
+                            onResponse: async ({ response }: { response: Response }) => {
+                                if (!response.ok || !response.body) return;
+                                await readEvents(response.body, (event, data) => {
+                                    const parsed = JSON.parse(data);
+                                    if (event === "error") {
+                                        params.onError?.(new Error(parsed.error));
+                                        return;
+                                    }
+                                    fromToken = parsed.zedToken;
+                                    onChange({ ...parsed, expiresAt: parsed.expiresAt ? new Date(parsed.expiresAt) : undefined });
+                                });
+                                return new Response("{}", { headers: { "content-type": "application/json" } });
+                            }
+                        });
+
+                        (async () => {
+                            // Reconnect with backoff, resuming after the last change received
+                            for (let attempt = 0; !controller.signal.aborted; attempt++) {
+                                try {
+                                    const result = await connect();
+                                    if (result?.error) {
+                                        params.onError?.(result.error);
+                                        // A rejected session will not succeed on retry
+                                        if (result.error.status === 401 || result.error.status === 403) return;
+                                    } else {
+                                        attempt = 0;
+                                    }
+                                } catch (err) {
+                                    if (controller.signal.aborted) return;
+                                    params.onError?.(err);
+                                }
+                                await new Promise((resolve) => setTimeout(resolve, Math.min(30_000, 1_000 * 2 ** attempt)));
+                            }
+                        })();
+
+                        return () => controller.abort();
+                    }
                 }
-            }
-        }),
+            };
+        },
     } satisfies BetterAuthClientPlugin;
 };
\ No newline at end of file
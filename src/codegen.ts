@@ -0,0 +1,58 @@
+// src/codegen.ts
+import { parseSchema } from "./schema";
+import type { ParsedSchema, SchemaSubjectType } from "./types";
+
+export interface GenerateTypesOptions {
+  /**
+   * Name of the exported schema type
+   * @default "SpiceDBSchema"
+   */
+  typeName?: string;
+}
+
+const literal = (value: string) => JSON.stringify(value);
+
+const union = (values: string[]) =>
+  values.length > 0 ? [...new Set(values)].map(literal).join(" | ") : "never";
+
+const subjectReference = (subject: SchemaSubjectType) => {
+  if (subject.wildcard) return `${subject.type}:*`;
+  if (subject.relation) return `${subject.type}#${subject.relation}`;
+  return subject.type;
+};
+
+/**
+ * Generate a TypeScript module describing a SpiceDB schema.
+ * Accepts either the raw schema.zed text or the output of `parseSchema()`.
+ */
+export function generateTypes(schema: string | ParsedSchema, options: GenerateTypesOptions = {}): string {
+  const parsed = typeof schema === "string" ? parseSchema(schema) : schema;
+  const typeName = options.typeName ?? "SpiceDBSchema";
+
+  const lines = [
+    "// This file is generated by better-auth-spicedb. Do not edit it by hand.",
+    "",
+    `export type ${typeName} = {`,
+  ];
+
+  for (const definition of parsed.definitions) {
+    lines.push(`  ${literal(definition.name)}: {`);
+
+    if (definition.relations.length === 0) {
+      lines.push("    relations: {};");
+    } else {
+      lines.push("    relations: {");
+      for (const relation of definition.relations) {
+        lines.push(`      ${literal(relation.name)}: ${union(relation.subjectTypes.map(subjectReference))};`);
+      }
+      lines.push("    };");
+    }
+
+    lines.push(`    permissions: ${union(definition.permissions.map((p) => p.name))};`);
+    lines.push("  };");
+  }
+
+  lines.push("};", "");
+
+  return lines.join("\n");
+}
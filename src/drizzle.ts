@@ -0,0 +1,40 @@
+// src/drizzle.ts
+import { inArray, is, sql, type Column, type SQL } from "drizzle-orm";
+import { MySqlColumn } from "drizzle-orm/mysql-core";
+import { SQLiteColumn } from "drizzle-orm/sqlite-core";
+import { createResourceFilters, type FilterApi } from "./filtering";
+import type { AnySchema, FilterAdapter, ResourceFilterOptions, SchemaDefinition } from "./types";
+
+// Serial columns are integers with a default; there are no serial arrays to cast to
+const SERIAL_TYPES: Record<string, string> = { smallserial: "smallint", serial: "integer", bigserial: "bigint" };
+
+/**
+ * Filters for Drizzle's `where`. Long ID lists are sent as a single JSON or array
+ * parameter, so they stay within the database's limit on bound parameters.
+ */
+export const drizzleAdapter: FilterAdapter<Column, SQL> = {
+  inList: (column, ids) => inArray(column, ids),
+  join: (column, ids) => {
+    const json = JSON.stringify(ids);
+    if (is(column, SQLiteColumn)) {
+      return sql`${column} in (select value from json_each(${json}))`;
+    }
+    if (is(column, MySqlColumn)) {
+      return sql`${column} in (select id from json_table(${json}, '$[*]' columns (id varchar(255) path '$')) as permitted)`;
+    }
+    // Postgres compares strictly, so the IDs take the column's type (uuid, integer, ...)
+    const type = column.getSQLType();
+    return sql`${column} in (select unnest(${sql.param(ids)}::${sql.raw(SERIAL_TYPES[type] ?? type)}[]))`;
+  },
+};
+
+/**
+ * `createResourceFilters` for Drizzle tables
+ */
+export function createDrizzleFilters<S extends SchemaDefinition = AnySchema>(
+  api: FilterApi<S>,
+  options?: ResourceFilterOptions
+) {
+  return createResourceFilters<S, Column, SQL>(api, drizzleAdapter, options);
+}
+
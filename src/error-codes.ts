@@ -0,0 +1,20 @@
+// src/error-codes.ts
+
+/**
+ * Error codes returned by the SpiceDB plugin endpoints
+ */
+export const SPICEDB_ERROR_CODES = {
+    SUBJECT_IMPERSONATION_FORBIDDEN: "You are not allowed to act on behalf of this subject",
+    ADMIN_REQUIRED: "This endpoint requires an admin session",
+    PRECONDITION_FAILED: "A write precondition did not match",
+    OUTBOX_DISABLED: "The relationship outbox is not enabled",
+    LOOKUP_SUBJECTS_FORBIDDEN: "You are not allowed to list who can access this resource",
+    SESSION_REQUIRED: "You must be signed in to access this resource",
+    PERMISSION_DENIED: "You do not have permission to access this resource",
+    RESOURCE_ID_REQUIRED: "The request does not identify the resource to check",
+    TENANT_REQUIRED: "The request does not belong to a tenant",
+    CROSS_TENANT_REFERENCE: "The request refers to an object outside its tenant",
+    RECONCILE_NOT_TENANT_AWARE: "These relationship sources do not filter by tenant and cannot be reconciled per tenant",
+} as const;
+
+export type SpiceDBErrorCode = keyof typeof SPICEDB_ERROR_CODES;
@@ -0,0 +1,84 @@
+// src/explain.ts
+import { v1 } from "@authzed/authzed-node";
+import type { CheckExplanation, CheckTraceNode, PermissionTreeNode } from "./types";
+
+const SET_OPERATIONS = {
+  [v1.AlgebraicSubjectSet_Operation.UNION]: "union",
+  [v1.AlgebraicSubjectSet_Operation.INTERSECTION]: "intersection",
+  [v1.AlgebraicSubjectSet_Operation.EXCLUSION]: "exclusion",
+} as Record<number, "union" | "intersection" | "exclusion">;
+
+// The debug messages are not re-exported from the v1 namespace
+type DebugInformation = NonNullable<v1.CheckPermissionResponse["debugTrace"]>;
+type CheckDebugTrace = NonNullable<DebugInformation["check"]>;
+
+// CheckDebugTrace.Permissionship: 2 = HAS_PERMISSION, 3 = CONDITIONAL_PERMISSION
+const TRACE_RESULTS: Record<number, CheckTraceNode["result"]> = { 2: "allowed", 3: "conditional" };
+
+// CheckDebugTrace.PermissionType: 1 = RELATION
+const TRACE_RELATION = 1;
+
+/**
+ * Convert SpiceDB's debug and expand responses into plain JSON,
+ * removing the namespace or tenant from objects
+ */
+export function createExplainers(fromObject: (type: string, id: string) => { type: string; id: string } | undefined) {
+  // Objects of other tenants are only reachable through relationships written outside the plugin
+  const isForeign = (object?: v1.ObjectReference) => !fromObject(object?.objectType ?? "", object?.objectId ?? "");
+
+  const toObject = (object?: v1.ObjectReference) =>
+    fromObject(object?.objectType ?? "", object?.objectId ?? "") ?? { type: "", id: "" };
+
+  const toSubject = (subject?: v1.SubjectReference) => ({
+    ...toObject(subject?.object),
+    ...(subject?.optionalRelation ? { relation: subject.optionalRelation } : {}),
+  });
+
+  const toPermissionTree = (tree: v1.PermissionRelationshipTree): PermissionTreeNode => {
+    const node = { object: toObject(tree.expandedObject), relation: tree.expandedRelation };
+
+    if (tree.treeType.oneofKind === "intermediate") {
+      return {
+        ...node,
+        operation: SET_OPERATIONS[tree.treeType.intermediate.operation] ?? "union",
+        children: tree.treeType.intermediate.children
+          .filter((child) => !isForeign(child.expandedObject))
+          .map(toPermissionTree),
+      };
+    }
+    return {
+      ...node,
+      subjects: tree.treeType.oneofKind === "leaf"
+        ? tree.treeType.leaf.subjects.filter((subject) => !isForeign(subject.object)).map(toSubject)
+        : [],
+    };
+  };
+
+  const toTraceNode = (trace: CheckDebugTrace): CheckTraceNode => ({
+    resource: toObject(trace.resource),
+    permission: trace.permission,
+    kind: trace.permissionType === TRACE_RELATION ? "relation" : "permission",
+    subject: toSubject(trace.subject),
+    result: TRACE_RESULTS[trace.result] ?? "denied",
+    ...(trace.caveatEvaluationInfo?.expression ? { caveat: trace.caveatEvaluationInfo.expression } : {}),
+    ...(trace.resolution.oneofKind === "wasCachedResult" ? { cached: trace.resolution.wasCachedResult } : {}),
+    children: trace.resolution.oneofKind === "subProblems"
+      ? trace.resolution.subProblems.traces.filter((child) => !isForeign(child.resource)).map(toTraceNode)
+      : [],
+  });
+
+  // Follow the first child that agrees with its parent's result at every level
+  const tracePath = (node: CheckTraceNode): string[] => {
+    const step = `${node.resource.type}:${node.resource.id}#${node.permission}`;
+    const next = node.children.find((child) => child.result === node.result);
+    return next ? [step, ...tracePath(next)] : [step];
+  };
+
+  const toExplanation = (debug: DebugInformation | undefined): CheckExplanation | undefined => {
+    if (!debug?.check) return undefined;
+    const trace = toTraceNode(debug.check);
+    return { path: tracePath(trace), trace };
+  };
+
+  return { toPermissionTree, toExplanation };
+}
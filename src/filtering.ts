@@ -0,0 +1,112 @@
+// src/filtering.ts
+import { toError, type createSpiceDBApi } from "./guards";
+import type {
+  AnySchema,
+  BulkCheckResult,
+  FilterAdapter,
+  LookupResourcesResult,
+  PermittedPage,
+  PermittedPageParams,
+  ResourceFilter,
+  ResourceFilterOptions,
+  ResourceFilterParams,
+  SchemaDefinition,
+} from "./types";
+
+// Largest page the lookup-resources endpoint returns
+const LOOKUP_PAGE_SIZE = 1000;
+
+// Endpoint bodies also carry why a caller was turned away
+type Rejection = { reason?: string; error?: string };
+
+// The parts of `createSpiceDBApi(auth)` the filters call
+export type FilterApi<S extends SchemaDefinition> = Pick<ReturnType<typeof createSpiceDBApi<S>>, "lookupResources" | "checkBulk">;
+
+/**
+ * Query filters for the resources a caller has a permission on. Small ID sets are
+ * filtered with `IN`, larger ones are joined in the database, and above `joinMax`
+ * rows are read unfiltered and checked with CheckBulkPermissions.
+ */
+export function createResourceFilters<S extends SchemaDefinition = AnySchema, Column = unknown, Filter = unknown>(
+  api: FilterApi<S>,
+  adapter: FilterAdapter<Column, Filter>,
+  options: ResourceFilterOptions = {}
+) {
+  const inListMax = options.inListMax ?? 500;
+  const joinMax = options.joinMax ?? 10_000;
+  const batchSize = options.batchSize ?? 100;
+
+  // Every permitted ID, or undefined once there are more than the database should be sent
+  const permittedIds = async ({ column, ...params }: ResourceFilterParams<S, Column>) => {
+    const ids: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await api.lookupResources({ ...params, limit: LOOKUP_PAGE_SIZE, cursor }) as LookupResourcesResult & Rejection;
+      if (page.reason || page.error) throw toError({ allowed: false, ...page });
+
+      ids.push(...page.resourceIds);
+      if (ids.length > joinMax) return undefined;
+      cursor = page.cursor;
+    } while (cursor);
+    return ids;
+  };
+
+  // Fails instead of hiding rows when SpiceDB could not answer
+  const checkRows = async <T>(params: ResourceFilterParams<S, Column>, rows: T[], id: (row: T) => string) => {
+    if (rows.length === 0) return rows;
+    const { column, resourceType, permission, ...request } = params;
+
+    const response = await api.checkBulk({
+      ...request,
+      checks: rows.map((row) => ({ resourceType, resourceId: id(row), permission })),
+    }) as BulkCheckResult<S> & Rejection;
+    if (response.reason || response.error) throw toError({ allowed: false, ...response });
+
+    const failed = response.results.find((result) => result.error);
+    if (failed) throw toError({ allowed: false, error: failed.error });
+    return rows.filter((_, i) => response.results[i]?.allowed);
+  };
+
+  const filter = async (params: ResourceFilterParams<S, Column>): Promise<ResourceFilter<Filter>> => {
+    const ids = await permittedIds(params);
+    if (!ids) {
+      return { strategy: "postFilter", filterRows: (rows, id) => checkRows(params, rows, id) };
+    }
+
+    const strategy = ids.length <= inListMax ? "in" : "join";
+    return {
+      strategy,
+      where: strategy === "in" ? adapter.inList(params.column, ids) : adapter.join(params.column, ids),
+      filterRows: async (rows) => rows,
+    };
+  };
+
+  /**
+   * Read one page of permitted rows. Rows a post-filter drops are replaced by reading on,
+   * so pages stay full, and the cursor is the ID of the last row returned.
+   */
+  const page = async <T>(params: PermittedPageParams<S, Column, Filter, T>): Promise<PermittedPage<T>> => {
+    const { fetch, id, limit, cursor, ...filterParams } = params;
+    const { strategy, where, filterRows } = await filter(filterParams);
+
+    // One row beyond the page tells whether another page follows
+    const items: T[] = [];
+    let after = cursor;
+    while (items.length <= limit) {
+      const size = where ? limit + 1 - items.length : batchSize;
+      const rows = await fetch({ where, after, limit: size });
+      items.push(...await filterRows(rows, id));
+      if (rows.length < size) break;
+      after = id(rows[rows.length - 1]);
+    }
+
+    const pageItems = items.slice(0, limit);
+    return {
+      items: pageItems,
+      cursor: items.length > limit ? id(pageItems[pageItems.length - 1]) : undefined,
+      strategy,
+    };
+  };
+
+  return { filter, page };
+}
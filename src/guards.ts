@@ -0,0 +1,147 @@
+// src/guards.ts
+import { APIError } from "better-auth/api";
+import { SPICEDB_ERROR_CODES } from "./error-codes";
+import { createCheckLoader } from "./loader";
+import type {
+  AnySchema,
+  BulkCheckItem,
+  BulkCheckParams,
+  BulkCheckResult,
+  CheckPermissionParams,
+  CheckPermissionResult,
+  EndpointCaller,
+  LookupResourcesParams,
+  LookupResourcesResult,
+  Permission,
+  PermissionLoader,
+  PermissionRequestEvent,
+  PermissionRule,
+  ResourceType,
+  SchemaDefinition,
+  ServerCaller,
+} from "./types";
+
+/**
+ * The endpoints of a Better Auth instance with the SpiceDB plugin that the server API calls
+ */
+export interface SpiceDBAuth {
+  api: {
+    spicedbCheck(context: { body: any; headers?: Headers }): Promise<any>;
+    spicedbCheckBulk(context: { body: any; headers?: Headers }): Promise<any>;
+    spicedbLookupResources(context: { body: any; headers?: Headers }): Promise<any>;
+  };
+}
+
+// A user ID becomes the subject; headers leave it to the session
+const toRequest = <P extends { subjectId?: string }>({ headers, userId, ...body }: P & ServerCaller) => ({
+  headers,
+  body: userId ? { ...body, subjectId: body.subjectId ?? userId } : body,
+});
+
+// Turn a denied check into the error the route should fail with
+export const toError = (result: CheckPermissionResult & { reason?: string }) => {
+  if (result.reason === "unauthenticated") {
+    return new APIError("UNAUTHORIZED", { code: "SESSION_REQUIRED", message: SPICEDB_ERROR_CODES.SESSION_REQUIRED });
+  }
+  // Fail closed when SpiceDB could not answer
+  if (result.error && !result.reason) {
+    return new APIError("INTERNAL_SERVER_ERROR", { message: result.error });
+  }
+  return new APIError("FORBIDDEN", { code: "PERMISSION_DENIED", message: SPICEDB_ERROR_CODES.PERMISSION_DENIED });
+};
+
+const matchesRoute = (route: string | RegExp, event: PermissionRequestEvent) =>
+  typeof route === "string" ? event.route.id === route : route.test(event.url.pathname);
+
+/**
+ * Server-side permission checks and route guards, run through the plugin's endpoints
+ * so the impersonation policy and consistency settings apply as they do over HTTP
+ */
+export function createSpiceDBApi<S extends SchemaDefinition = AnySchema>(auth: SpiceDBAuth) {
+  /**
+   * Checks with request headers go through the request's loader. A pinned consistency
+   * or an explanation needs the check endpoint itself, as does a `userId` caller.
+   */
+  const check = async (params: CheckPermissionParams<S> & ServerCaller): Promise<CheckPermissionResult> => {
+    const { headers, userId, consistency, explain, ...item } = params;
+    if (!headers || consistency || explain) return auth.api.spicedbCheck(toRequest(params));
+    return loader({ headers }).check(item as BulkCheckItem<S>);
+  };
+
+  const checkBulk = async (params: BulkCheckParams<S> & ServerCaller): Promise<BulkCheckResult<S>> =>
+    auth.api.spicedbCheckBulk(toRequest(params));
+
+  const lookupResources = async (params: LookupResourcesParams<S> & ServerCaller): Promise<LookupResourcesResult> =>
+    auth.api.spicedbLookupResources(toRequest(params));
+
+  // Keyed on the request's headers or Better Auth context, so every caller during one request shares a loader
+  const loaders = new WeakMap<object, PermissionLoader<S>>();
+
+  const memoized = (key: object, caller: ServerCaller) => {
+    let existing = loaders.get(key);
+    if (!existing) {
+      existing = createCheckLoader<S>((checks) => checkBulk({ checks, ...caller } as BulkCheckParams<S> & ServerCaller));
+      loaders.set(key, existing);
+    }
+    return existing;
+  };
+
+  /**
+   * The loader of the caller's request. A user ID has no request to scope it to,
+   * so each call returns a new loader; keep it for as long as the request lasts.
+   * Inside a Better Auth endpoint or hook, pass its context.
+   */
+  const loader = (caller: ServerCaller | EndpointCaller): PermissionLoader<S> => {
+    if ("context" in caller) {
+      if (caller.headers) return memoized(caller.headers, { headers: caller.headers });
+      const userId = caller.context.session?.user?.id;
+      // Without a request or session there is no one to check as, so every check is unauthenticated
+      return memoized(caller, userId ? { userId } : { headers: new Headers() });
+    }
+    if (caller.headers) return memoized(caller.headers, caller);
+    return createCheckLoader<S>((checks) => checkBulk({ checks, ...caller } as BulkCheckParams<S> & ServerCaller));
+  };
+
+  /**
+   * Build a guard that throws an APIError with status 401, 403 or 400
+   * unless the caller has the permission on the resource the request names
+   */
+  const requirePermission = <R extends ResourceType<S>>(
+    resourceType: R,
+    idFromRequest: (request: Request) => string | null | undefined | Promise<string | null | undefined>,
+    permission: Permission<S, R>
+  ) => async (request: Request, caller: ServerCaller = { headers: request.headers }) => {
+    const resourceId = await idFromRequest(request);
+    if (!resourceId) {
+      throw new APIError("BAD_REQUEST", { code: "RESOURCE_ID_REQUIRED", message: SPICEDB_ERROR_CODES.RESOURCE_ID_REQUIRED });
+    }
+
+    // Through the request's loader, so the route's own checks reuse the answer
+    const result = await loader(caller).check({ resourceType, resourceId, permission } as BulkCheckItem<S>);
+    if (!result.allowed) throw toError(result);
+    return { resourceType, resourceId };
+  };
+
+  /**
+   * SvelteKit `handle` that checks the first matching rule before resolving the request.
+   * SvelteKit turns thrown errors it does not know into 500s, so denials are answered
+   * here with a JSON response carrying the APIError's status and body.
+   */
+  const handle = (rules: PermissionRule<S>[]) =>
+    async <E extends PermissionRequestEvent>({ event, resolve }: { event: E; resolve: (event: E) => Response | Promise<Response> }) => {
+      const rule = rules.find((r) =>
+        matchesRoute(r.route, event) && (!r.methods || r.methods.includes(event.request.method))
+      );
+      if (!rule) return resolve(event);
+
+      try {
+        await requirePermission(rule.resourceType, () => rule.resourceId(event), rule.permission)(event.request);
+      } catch (err) {
+        if (!(err instanceof APIError)) throw err;
+        return Response.json(err.body ?? {}, { status: err.statusCode });
+      }
+      return resolve(event);
+    };
+
+  return { check, checkBulk, lookupResources, loader, requirePermission, handle };
+}
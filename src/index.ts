@@ -1,31 +1,118 @@
 export { spicedb } from './server';
 export { spiceDBClient } from './client';
+export { parseSchema } from './schema';
+export { diffSchemas, validateMappings } from './schema-sync';
+export { generateTypes } from './codegen';
+export { SPICEDB_ERROR_CODES } from './error-codes';
+export { createMemoryTokenStore } from './tokens';
+export { createMemoryCheckStore } from './check-cache';
+export { paginate } from './reconcile';
+export { createSpiceDBApi } from './guards';
+export { createResourceFilters } from './filtering';
+export type { SpiceDBErrorCode } from './error-codes';
+export type { GenerateTypesOptions } from './codegen';
+export type { SpiceDBAuth } from './guards';
 export type {
     SpiceDBPluginOptions,
+    ImpersonationOptions,
+    SpiceDBSession,
+    SubjectReference,
     RelationshipMapping,
+    RelationshipMappingFor,
     CheckPermissionParams,
     CheckPermissionResult,
+    CheckExplanation,
+    CheckTraceNode,
+    PermissionTreeNode,
+    ExpandPermissionParams,
+    ExpandPermissionResult,
+    BulkCheckItem,
     BulkCheckParams,
     BulkCheckResult,
     LookupResourcesParams,
     LookupResourcesResult,
+    LookupResource,
+    LookupResourcesStreamParams,
+    LookupSubjectsParams,
+    LookupSubject,
+    LookupSubjectsResult,
     WriteRelationshipParams,
     RelationshipResult,
+    RelationshipCaveat,
+    RelationshipOperation,
+    RelationshipUpdate,
+    RelationshipFilter,
+    Precondition,
+    WriteRelationshipsParams,
+    ReadRelationshipsParams,
+    ReadRelationshipsResult,
+    DeleteRelationshipsParams,
+    DeleteRelationshipsResult,
+    SchemaDefinition,
+    AnySchema,
     Permission,
     ResourceType,
-    PermissionContext
+    Relation,
+    SubjectType,
+    SubjectRelation,
+    SchemaSubjectType,
+    SchemaDefinitionNode,
+    SchemaCaveatNode,
+    ParsedSchema,
+    PermissionContext,
+    ConsistencyOption,
+    ConsistencyOptions,
+    ZedTokenEntry,
+    ZedTokenStore,
+    HookContext,
+    OutboxOptions,
+    OutboxItem,
+    ReconcileSourceContext,
+    ReconcileParams,
+    ReconcileGroupReport,
+    ReconcileResult,
+    RelationshipRecord,
+    OrganizationSyncOptions,
+    CleanupOptions,
+    ResourceCleanupMapping,
+    CleanupReport,
+    SchemaOptions,
+    SchemaSyncResult,
+    RelationshipChange,
+    WatchParams,
+    WatchChangesOptions,
+    ServerCaller,
+    EndpointCaller,
+    PermissionRule,
+    PermissionRequestEvent,
+    PermissionState,
+    PermissionStore,
+    PermissionLoader,
+    CheckCacheOptions,
+    CheckCacheStore,
+    CheckCacheStats,
+    FilterAdapter,
+    ResourceFilterOptions,
+    ResourceFilterParams,
+    ResourceFilter,
+    PermittedPageParams,
+    PermittedPage,
+    TenantOptions,
+    TenantContext
 } from './types';
 
 /**
  * Create an event emitter that works with SpiceDB plugin hooks
  */
 export function createEventEmitter(plugin: ReturnType<typeof import('./server').spicedb>) {
-    return async function emitEvent(eventName: string, data: any) {
+    return async function emitEvent(eventName: string, data: any, context?: import('./types').HookContext): Promise<string | undefined> {
         const eventHooks = plugin.hooks?.[eventName];
 
         if (eventHooks && Array.isArray(eventHooks)) {
             console.log(`[SpiceDB] Dispatching '${eventName}' to ${eventHooks.length} hooks...`);
-            await Promise.all(eventHooks.map((fn: Function) => fn(data)));
+            const zedTokens = await Promise.all(eventHooks.map((fn: Function) => fn(data, context)));
+            // Latest ZedToken written by the hooks, usable for read-your-writes consistency
+            return zedTokens.filter(Boolean).pop();
         } else {
             console.warn(`[SpiceDB] No hooks registered for event '${eventName}'.`);
         }
@@ -0,0 +1,56 @@
+// src/loader.ts
+import type { AnySchema, BulkCheckItem, CheckPermissionResult, PermissionLoader, SchemaDefinition } from "./types";
+
+// The check-bulk endpoint's body; a rejected caller gets no results and a reason
+type CheckBulk = (checks: BulkCheckItem<any>[]) => Promise<{
+  results?: Array<{ allowed: boolean; error?: string }>;
+  reason?: string;
+  code?: string;
+  error?: string;
+}>;
+
+type Result = CheckPermissionResult & { reason?: string };
+
+/**
+ * Request-scoped loader behind `createSpiceDBApi(auth).loader()`. Unlike the plugin's
+ * check cache, answers live only as long as the loader, so nothing is shared across requests.
+ */
+export function createCheckLoader<S extends SchemaDefinition = AnySchema>(checkBulk: CheckBulk): PermissionLoader<S> {
+  const answers = new Map<string, Promise<Result>>();
+  let queue: Array<{ key: string; item: BulkCheckItem<S>; resolve: (result: Result) => void }> = [];
+
+  const flush = async () => {
+    const batch = queue;
+    queue = [];
+
+    let response: Awaited<ReturnType<CheckBulk>>;
+    try {
+      response = await checkBulk(batch.map((entry) => entry.item));
+    } catch (err: any) {
+      response = { error: String(err?.message ?? err) };
+    }
+
+    batch.forEach(({ key, resolve }, i) => {
+      const { results, ...rejected } = response;
+      const result: Result = results?.[i] ?? { allowed: false, ...rejected };
+      // Failed checks are asked again by the next call
+      if (result.error && !result.reason) answers.delete(key);
+      resolve(result);
+    });
+  };
+
+  const check = (item: BulkCheckItem<S>) => {
+    const key = JSON.stringify(item);
+    let answer = answers.get(key);
+    if (!answer) {
+      answer = new Promise<Result>((resolve) => {
+        queue.push({ key, item, resolve });
+        if (queue.length === 1) queueMicrotask(() => void flush());
+      });
+      answers.set(key, answer);
+    }
+    return answer;
+  };
+
+  return { check, clear: () => answers.clear() };
+}
@@ -0,0 +1,63 @@
+// src/mappings.ts
+import type { RelationshipFilter, RelationshipMappingFor, RelationshipRecord, RelationshipUpdate } from "./types";
+
+export type AnyRelationshipMapping = RelationshipMappingFor<string, string, string>;
+
+// Canonical "type:id#relation@type:id#relation" form, used to compare relationships
+export const relationshipKey = (relationship: Pick<RelationshipRecord, "resource" | "relation" | "subject">) =>
+  `${relationship.resource.type}:${relationship.resource.id}#${relationship.relation}@` +
+  `${relationship.subject.type}:${relationship.subject.id}${relationship.subject.relation ? `#${relationship.subject.relation}` : ""}`;
+
+// SpiceDB rejects a write that updates one relationship twice; the last update of each wins
+export const dedupeUpdates = (updates: RelationshipUpdate[]) => [
+  ...new Map(updates.map((update) => [relationshipKey(update), update] as const)).values(),
+];
+
+// Extractors may return one ID or many; empty values are dropped
+const toIds = (value: string | string[] | null | undefined) =>
+  (Array.isArray(value) ? value : [value]).filter((id): id is string => !!id);
+
+// Turn one event into the relationship updates a mapping produces for it
+export const mappingUpdates = (mapping: AnyRelationshipMapping, event: any): RelationshipUpdate[] => {
+  if (mapping.when && !mapping.when(event)) return [];
+
+  // Extract IDs using the mapping functions
+  const resourceIds = toIds(mapping.resourceId(event));
+  const subjectIds = toIds(mapping.subjectId(event));
+
+  // A replace with no subjects left is valid: it only clears the old ones
+  if (resourceIds.length === 0 || (subjectIds.length === 0 && !mapping.replace)) {
+    console.warn(`[spicedb] Skipping ${mapping.resourceType}#${mapping.relation} - missing IDs in event:`, event);
+    return [];
+  }
+
+  const operation = mapping.operation ?? "touch";
+  const caveatContext = typeof mapping.caveatContext === "function"
+    ? mapping.caveatContext(event)
+    : mapping.caveatContext;
+  const expiresAt = typeof mapping.expiresAt === "function"
+    ? mapping.expiresAt(event)
+    : mapping.expiresAt;
+
+  return resourceIds.flatMap((resourceId) => subjectIds.map((subjectId): RelationshipUpdate => ({
+    operation,
+    resource: { type: mapping.resourceType, id: resourceId },
+    relation: mapping.relation,
+    subject: { type: mapping.subjectType, id: subjectId, relation: mapping.subjectRelation },
+    // Deletes match on the relationship alone
+    caveat: operation !== "delete" && mapping.caveatName ? { name: mapping.caveatName, context: caveatContext } : undefined,
+    expiresAt: operation !== "delete" ? expiresAt || undefined : undefined,
+  })));
+};
+
+// Relationships a replace mapping clears for an event, one filter per resource
+export const replaceFilters = (mapping: AnyRelationshipMapping, event: any): RelationshipFilter[] => {
+  if (!mapping.replace || mapping.operation === "delete") return [];
+  if (mapping.when && !mapping.when(event)) return [];
+
+  return toIds(mapping.resourceId(event)).map((resourceId) => ({
+    resourceType: mapping.resourceType,
+    resourceId,
+    relation: mapping.relation,
+  }));
+};
@@ -0,0 +1,269 @@
+// src/organizations.ts
+import { createAuthMiddleware } from "better-auth/api";
+import { paginate } from "./reconcile";
+import type { AnyRelationshipMapping } from "./mappings";
+import type {
+  HookContext,
+  OrganizationSyncOptions,
+  RelationshipFilter,
+  RelationshipOperation,
+  RelationshipRecord,
+  RelationshipUpdate,
+} from "./types";
+
+const DEFAULT_ROLES: Record<string, string | string[]> = { owner: "admin", admin: "admin", member: "member" };
+
+type MiddlewareContext = Parameters<Parameters<typeof createAuthMiddleware>[0]>[0];
+
+type Member = { organizationId: string; userId: string; role: string };
+
+export interface OrganizationSyncDeps {
+  syncUpdates: (eventName: string, updates: RelationshipUpdate[], context?: HookContext) => Promise<string | undefined>;
+  // Resolves to the number of relationships deleted
+  deleteRelationships: (filter: RelationshipFilter) => Promise<number>;
+  readRelationships: (filter: RelationshipFilter) => AsyncIterable<RelationshipRecord>;
+  // Runs a hook inside the tenant of the organization endpoint's caller
+  runInTenant: (ctx: MiddlewareContext, fn: () => Promise<void>) => Promise<void>;
+}
+
+// auth.api calls return the endpoint's object, HTTP calls a Response; errors come back as APIError
+const endpointResult = async (returned: unknown): Promise<any> => {
+  if (!returned || returned instanceof Error) return null;
+  if (returned instanceof Response) return returned.ok ? returned.clone().json() : null;
+  return returned;
+};
+
+/**
+ * After-hooks on the organization plugin's endpoints that keep SpiceDB in sync,
+ * plus reconciliation mappings backed by its tables
+ */
+export function createOrganizationSync(options: OrganizationSyncOptions, deps: OrganizationSyncDeps) {
+  const organizationType = options.resourceType ?? "organization";
+  const roles = options.roles ?? DEFAULT_ROLES;
+  const roleRelations = [...new Set(Object.values(roles).flat())];
+  const teams = options.teams
+    ? { resourceType: "team", relation: "member", ...(options.teams === true ? {} : options.teams) }
+    : undefined;
+
+  // Better Auth stores multiple roles as a comma-separated string
+  const relationsFor = (role: string) => [...new Set(role.split(",").flatMap((r) => {
+    const relations = roles[r.trim()];
+    if (!relations) console.warn(`[spicedb] No relation configured for organization role "${r.trim()}"`);
+    return relations ?? [];
+  }))];
+
+  const memberUpdate = (member: Member, relation: string, operation: RelationshipOperation): RelationshipUpdate => ({
+    operation,
+    resource: { type: organizationType, id: member.organizationId },
+    relation,
+    subject: { type: "user", id: member.userId },
+  });
+
+  const addMember = (member: Member) =>
+    relationsFor(member.role).map((relation) => memberUpdate(member, relation, "touch"));
+
+  const removeMember = (member: Member) =>
+    roleRelations.map((relation) => memberUpdate(member, relation, "delete"));
+
+  const teamMemberUpdate = (teamId: string, userId: string, operation: RelationshipOperation): RelationshipUpdate => ({
+    operation,
+    resource: { type: teams!.resourceType, id: teamId },
+    relation: teams!.relation,
+    subject: { type: "user", id: userId },
+  });
+
+  const teamOrganizationUpdate = (team: { id: string; organizationId: string }): RelationshipUpdate[] =>
+    teams?.organizationRelation
+      ? [{
+          operation: "touch",
+          resource: { type: teams.resourceType, id: team.id },
+          relation: teams.organizationRelation,
+          subject: { type: organizationType, id: team.organizationId },
+        }]
+      : [];
+
+  // Invitations store several teams as a comma-separated string
+  const teamIds = (teamId?: string | null) => teamId ? teamId.split(",").map((id) => id.trim()).filter(Boolean) : [];
+
+  // Each handler returns the updates for a successful call to its endpoint
+  const handlers: Record<string, (ctx: MiddlewareContext, result: any) => Promise<RelationshipUpdate[]>> = {
+    "/organization/create": async (ctx, organization) => {
+      const updates = organization.members.flatMap(addMember);
+      if (!teams) return updates;
+
+      // The default team and its first member are not part of the response
+      const orgTeams = await ctx.context.adapter.findMany<{ id: string; organizationId: string }>({
+        model: "team",
+        where: [{ field: "organizationId", value: organization.id }],
+      });
+      if (orgTeams.length === 0) return updates;
+
+      const teamMembers = await ctx.context.adapter.findMany<{ teamId: string; userId: string }>({
+        model: "teamMember",
+        where: [{ field: "teamId", value: orgTeams.map((team) => team.id), operator: "in" }],
+      });
+      return [
+        ...updates,
+        ...orgTeams.flatMap(teamOrganizationUpdate),
+        ...teamMembers.map((member) => teamMemberUpdate(member.teamId, member.userId, "touch")),
+      ];
+    },
+
+    "/organization/add-member": async (ctx, member) => [
+      ...addMember(member),
+      ...(teams ? teamIds(ctx.body?.teamId).map((teamId) => teamMemberUpdate(teamId, member.userId, "touch")) : []),
+    ],
+
+    "/organization/accept-invitation": async (_ctx, { invitation, member }) => [
+      ...addMember(member),
+      ...(teams ? teamIds(invitation.teamId).map((teamId) => teamMemberUpdate(teamId, member.userId, "touch")) : []),
+    ],
+
+    "/organization/remove-member": async (_ctx, { member }) => removeMember(member),
+
+    "/organization/leave": async (_ctx, member) => removeMember(member),
+
+    // Move the member to the relations of the new role and drop the rest
+    "/organization/update-member-role": async (_ctx, member) => {
+      const relations = relationsFor(member.role);
+      return roleRelations.map((relation) =>
+        memberUpdate(member, relation, relations.includes(relation) ? "touch" : "delete")
+      );
+    },
+
+    "/organization/delete": async (_ctx, organization) => {
+      const removed: Record<string, number> = {};
+      const remove = async (filter: RelationshipFilter) => {
+        removed[filter.resourceType] = (removed[filter.resourceType] ?? 0) + await deps.deleteRelationships(filter);
+      };
+      const subject = { type: organizationType, id: organization.id };
+
+      // Teams are found through their organization relation before it is deleted
+      if (teams?.organizationRelation) {
+        const filter = { resourceType: teams.resourceType, relation: teams.organizationRelation, subject };
+        const orgTeamIds = new Set<string>();
+        for await (const relationship of deps.readRelationships(filter)) orgTeamIds.add(relationship.resource.id);
+
+        for (const teamId of orgTeamIds) {
+          await remove({ resourceType: teams.resourceType, resourceId: teamId });
+        }
+      }
+
+      await remove({ resourceType: organizationType, resourceId: organization.id });
+      // Relationships where the organization is the subject, on each of the configured resource types
+      for (const resourceType of options.subjectResourceTypes ?? []) {
+        await remove({ resourceType, subject });
+      }
+
+      const counts = Object.entries(removed).map(([type, count]) => `${count} on ${type}`).join(", ");
+      console.log(`[spicedb] Removed relationships of ${organizationType}:${organization.id}: ${counts}`);
+      return [];
+    },
+  };
+
+  if (teams) {
+    Object.assign(handlers, {
+      "/organization/create-team": async (_ctx: MiddlewareContext, team: any) => teamOrganizationUpdate(team),
+
+      "/organization/remove-team": async (ctx: MiddlewareContext) => {
+        await deps.deleteRelationships({ resourceType: teams.resourceType, resourceId: ctx.body.teamId });
+        return [];
+      },
+
+      "/organization/add-team-member": async (_ctx: MiddlewareContext, teamMember: any) =>
+        [teamMemberUpdate(teamMember.teamId, teamMember.userId, "touch")],
+
+      "/organization/remove-team-member": async (ctx: MiddlewareContext) =>
+        [teamMemberUpdate(ctx.body.teamId, ctx.body.userId, "delete")],
+    });
+  }
+
+  const hooks = Object.entries(handlers).map(([path, handler]) => ({
+    matcher: (ctx: { path?: string }) => ctx.path === path,
+    handler: createAuthMiddleware(async (ctx) => {
+      const result = await endpointResult(ctx.context.returned);
+      if (!result) return;
+
+      try {
+        await deps.runInTenant(ctx, async () => {
+          const updates = await handler(ctx, result);
+          if (updates.length === 0) return;
+
+          await deps.syncUpdates(path, updates, {
+            session: ctx.context.session,
+            adapter: ctx.context.adapter,
+          });
+          for (const update of updates) {
+            console.log(`[spicedb] ${update.operation === "delete" ? "Removed" : "Synced"}: user:${update.subject.id} → ${update.resource.type}:${update.resource.id}#${update.relation}`);
+          }
+        });
+      } catch (err) {
+        // The organization change is already committed; reconciliation can repair the drift
+        console.error(`[spicedb] Failed to sync ${path}:`, err);
+      }
+    }),
+  }));
+
+  // Under a tenant, only the rows of the organization it resolves to
+  const tenantAware = options.tenantIsOrganization ?? false;
+  const organizationWhere = (tenantId?: string) =>
+    tenantAware && tenantId ? [{ field: "organizationId", value: tenantId }] : undefined;
+
+  // Reconciliation sources: Better Auth's member, team and teamMember tables
+  const mappings: AnyRelationshipMapping[] = roleRelations.map((relation) => ({
+    on: "organization.member",
+    resourceType: organizationType,
+    relation,
+    subjectType: "user",
+    resourceId: (member: Member) => member.organizationId,
+    subjectId: (member: Member) => member.userId,
+    tenantAware,
+    source: async function* ({ adapter, pageSize, tenantId }) {
+      const where = organizationWhere(tenantId);
+      for await (const member of paginate<Member>(adapter, "member", { where, pageSize })) {
+        if (relationsFor(member.role).includes(relation)) yield member;
+      }
+    },
+  }));
+
+  if (teams) {
+    mappings.push({
+      on: "organization.teamMember",
+      resourceType: teams.resourceType,
+      relation: teams.relation,
+      subjectType: "user",
+      resourceId: (member) => member.teamId,
+      subjectId: (member) => member.userId,
+      tenantAware,
+      source: async function* ({ adapter, pageSize, tenantId }) {
+        const where = organizationWhere(tenantId);
+        if (!where) return yield* paginate(adapter, "teamMember", { pageSize });
+
+        // teamMember rows have no organization, so go through the organization's teams
+        const orgTeamIds: string[] = [];
+        for await (const team of paginate(adapter, "team", { where, pageSize })) orgTeamIds.push(team.id);
+        if (orgTeamIds.length === 0) return;
+        yield* paginate(adapter, "teamMember", {
+          where: [{ field: "teamId", operator: "in", value: orgTeamIds }],
+          pageSize,
+        });
+      },
+    });
+  }
+
+  if (teams?.organizationRelation) {
+    mappings.push({
+      on: "organization.team",
+      resourceType: teams.resourceType,
+      relation: teams.organizationRelation,
+      subjectType: organizationType,
+      resourceId: (team) => team.id,
+      subjectId: (team) => team.organizationId,
+      tenantAware,
+      source: ({ adapter, pageSize, tenantId }) =>
+        paginate(adapter, "team", { where: organizationWhere(tenantId), pageSize }),
+    });
+  }
+
+  return { hooks, mappings };
+}
@@ -0,0 +1,279 @@
+// src/outbox.ts
+import { randomUUID } from "node:crypto";
+import type { AuthContext } from "better-auth";
+import { relationshipKey } from "./mappings";
+import type { OutboxItem, OutboxOptions, RelationshipUpdate } from "./types";
+
+export const OUTBOX_MODEL = "spicedbOutbox";
+
+// gRPC status code for a CREATE of a relationship that already exists
+const GRPC_ALREADY_EXISTS = 6;
+
+export type OutboxAdapter = Pick<AuthContext["adapter"], "create" | "findMany" | "updateMany" | "deleteMany" | "count">;
+
+/**
+ * Table the outbox stores pending relationship updates in
+ */
+export const outboxSchema = {
+  [OUTBOX_MODEL]: {
+    fields: {
+      event: { type: "string", required: true },
+      idempotencyKey: { type: "string", required: true },
+      updates: { type: "string", required: true },
+      tenantId: { type: "string", required: false },
+      status: { type: "string", required: true },
+      attempts: { type: "number", required: true },
+      nextAttemptAt: { type: "date", required: true },
+      lastError: { type: "string", required: false },
+      createdAt: { type: "date", required: true },
+      updatedAt: { type: "date", required: true },
+    },
+  },
+} as const;
+
+export interface OutboxDeps {
+  writeRelationships: (updates: RelationshipUpdate[], tenantId?: string) => Promise<string | undefined>;
+  relationshipExists: (update: RelationshipUpdate, tenantId?: string) => Promise<boolean>;
+}
+
+type StoredOutboxItem = Omit<OutboxItem, "updates"> & { updates: string };
+
+const parseItem = (item: StoredOutboxItem): OutboxItem => ({ ...item, updates: JSON.parse(item.updates) });
+
+/**
+ * Durable queue of relationship updates, drained into SpiceDB with retries
+ */
+export function createOutbox(options: OutboxOptions, deps: OutboxDeps) {
+  const maxAttempts = options.maxAttempts ?? 10;
+  const baseDelayMs = options.baseDelayMs ?? 1_000;
+  const maxDelayMs = options.maxDelayMs ?? 5 * 60_000;
+  const batchSize = options.batchSize ?? 50;
+  const pollIntervalMs = options.pollIntervalMs ?? 5_000;
+  // Items stuck in "processing" this long belong to a worker that died mid-write
+  const staleAfterMs = 5 * 60_000;
+
+  let timer: ReturnType<typeof setInterval> | undefined;
+  let draining = false;
+
+  // Exponential backoff with up to 20% jitter so retries from many items spread out
+  const backoff = (attempts: number) => {
+    const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempts - 1));
+    return delay + Math.floor(Math.random() * delay * 0.2);
+  };
+
+  // Listing, retrying and deduplicating with a tenant ID only touch that tenant's items
+  const tenantFilter = (tenantId?: string) => tenantId ? [{ field: "tenantId", value: tenantId }] : [];
+
+  const enqueue = async (
+    adapter: OutboxAdapter,
+    event: string,
+    updates: RelationshipUpdate[],
+    idempotencyKey?: string,
+    tenantId?: string
+  ) => {
+    // Equal updates are not the same change: touch, delete, touch must leave the relationship written.
+    // Only a key from the caller marks a repeat of a change that is still waiting.
+    if (idempotencyKey) {
+      const pending = await adapter.count({
+        model: OUTBOX_MODEL,
+        where: [
+          { field: "idempotencyKey", value: idempotencyKey },
+          { field: "status", value: ["pending", "processing"], operator: "in" },
+          ...tenantFilter(tenantId),
+        ],
+      });
+      if (pending > 0) return;
+    }
+
+    const now = new Date();
+    await adapter.create({
+      model: OUTBOX_MODEL,
+      data: {
+        event,
+        idempotencyKey: idempotencyKey ?? `${event}:${randomUUID()}`,
+        updates: JSON.stringify(updates),
+        tenantId: tenantId ?? null,
+        status: "pending",
+        attempts: 0,
+        nextAttemptAt: now,
+        createdAt: now,
+        updatedAt: now,
+      },
+    });
+  };
+
+  /**
+   * Write an item's updates. WriteRelationships is atomic, so a CREATE of an existing
+   * relationship fails the whole batch; that can be an earlier attempt that committed,
+   * or the app creating it elsewhere. Either way the other updates still apply.
+   */
+  const writeItem = async (item: OutboxItem) => {
+    const tenantId = item.tenantId ?? undefined;
+    try {
+      await deps.writeRelationships(item.updates, tenantId);
+    } catch (err: any) {
+      if (err.code !== GRPC_ALREADY_EXISTS) throw err;
+
+      const exists = await Promise.all(item.updates.map((update) =>
+        update.operation === "create" ? deps.relationshipExists(update, tenantId) : false
+      ));
+      const remaining = item.updates.filter((_, i) => !exists[i]);
+      if (remaining.length === item.updates.length) throw err;
+
+      console.warn(`[spicedb] Outbox item ${item.id} (${item.event}): ${item.updates.length - remaining.length} created relationships already exist, applying the other updates`);
+      if (remaining.length > 0) await deps.writeRelationships(remaining, tenantId);
+    }
+  };
+
+  const applyItem = async (adapter: OutboxAdapter, item: OutboxItem) => {
+    // Claim the item so concurrent workers do not apply it twice
+    const claimed = await adapter.updateMany({
+      model: OUTBOX_MODEL,
+      where: [
+        { field: "id", value: item.id },
+        { field: "status", value: "pending" },
+      ],
+      update: { status: "processing", updatedAt: new Date() },
+    });
+    if (claimed === 0) return "skipped" as const;
+
+    try {
+      await writeItem(item);
+    } catch (err: any) {
+      const attempts = item.attempts + 1;
+      const deadLettered = attempts >= maxAttempts;
+
+      await adapter.updateMany({
+        model: OUTBOX_MODEL,
+        where: [{ field: "id", value: item.id }],
+        update: {
+          status: deadLettered ? "failed" : "pending",
+          attempts,
+          lastError: String(err.message ?? err),
+          nextAttemptAt: new Date(Date.now() + backoff(attempts)),
+          updatedAt: new Date(),
+        },
+      });
+
+      if (deadLettered) {
+        console.error(`[spicedb] Outbox item ${item.id} (${item.event}) failed after ${attempts} attempts:`, err);
+      }
+      return deadLettered ? "failed" as const : "retrying" as const;
+    }
+
+    await adapter.deleteMany({
+      model: OUTBOX_MODEL,
+      where: [{ field: "id", value: item.id }],
+    });
+    return "applied" as const;
+  };
+
+  // The relationships an item writes, per tenant
+  const itemKeys = (item: OutboxItem) =>
+    item.updates.map((update) => `${item.tenantId ?? ""}|${relationshipKey(update)}`);
+
+  // Every queued item, oldest first; applied items are deleted, so the rest are still waiting
+  async function* queued(adapter: OutboxAdapter) {
+    const seen = new Set<string>();
+    let after: Date | undefined;
+    while (true) {
+      const page = await adapter.findMany<StoredOutboxItem>({
+        model: OUTBOX_MODEL,
+        // Items created in the same millisecond span pages, so the last one's is read again
+        where: after ? [{ field: "createdAt", value: after, operator: "gte" }] : [],
+        sortBy: { field: "createdAt", direction: "asc" },
+        limit: batchSize,
+      });
+      const unseen = page.filter((item) => !seen.has(item.id));
+      if (unseen.length === 0) return;
+
+      for (const item of unseen) {
+        seen.add(item.id);
+        yield parseItem(item);
+      }
+      if (page.length < batchSize) return;
+      after = page[page.length - 1].createdAt;
+    }
+  }
+
+  /**
+   * Apply up to `batchSize` due items, oldest first; returns how each one ended up.
+   * An item waits while an earlier one that writes the same relationship is not applied,
+   * whether it is backing off, dead-lettered or being applied by another worker,
+   * so a retried touch cannot undo a later delete.
+   */
+  const drain = async (adapter: OutboxAdapter) => {
+    const summary = { applied: 0, retrying: 0, failed: 0, skipped: 0 };
+    if (draining) return summary;
+    draining = true;
+
+    try {
+      await adapter.updateMany({
+        model: OUTBOX_MODEL,
+        where: [
+          { field: "status", value: "processing" },
+          { field: "updatedAt", value: new Date(Date.now() - staleAfterMs), operator: "lt" },
+        ],
+        update: { status: "pending", updatedAt: new Date() },
+      });
+
+      const now = new Date();
+      const waiting = new Set<string>();
+      let attempted = 0;
+
+      // Sequential, so updates keep their order
+      for await (const item of queued(adapter)) {
+        const keys = itemKeys(item);
+        const due = item.status === "pending" && new Date(item.nextAttemptAt) <= now && !keys.some((key) => waiting.has(key));
+
+        const outcome = due ? await applyItem(adapter, item) : undefined;
+        if (outcome) summary[outcome]++;
+        if (outcome !== "applied") keys.forEach((key) => waiting.add(key));
+
+        if (outcome && ++attempted >= batchSize) break;
+      }
+    } finally {
+      draining = false;
+    }
+
+    return summary;
+  };
+
+  const list = async (adapter: OutboxAdapter, status: OutboxItem["status"], limit: number, tenantId?: string) => {
+    const items = await adapter.findMany<StoredOutboxItem>({
+      model: OUTBOX_MODEL,
+      where: [{ field: "status", value: status }, ...tenantFilter(tenantId)],
+      sortBy: { field: "createdAt", direction: "asc" },
+      limit,
+    });
+    return items.map(parseItem);
+  };
+
+  // Move dead-lettered items back to the queue; all of them when no IDs are given
+  const retry = (adapter: OutboxAdapter, ids?: string[], tenantId?: string) =>
+    adapter.updateMany({
+      model: OUTBOX_MODEL,
+      where: [
+        { field: "status", value: "failed" },
+        ...(ids ? [{ field: "id", value: ids, operator: "in" as const }] : []),
+        ...tenantFilter(tenantId),
+      ],
+      update: { status: "pending", attempts: 0, nextAttemptAt: new Date(), updatedAt: new Date() },
+    });
+
+  const start = (adapter: OutboxAdapter) => {
+    if (timer) return;
+    timer = setInterval(() => {
+      drain(adapter).catch((err) => console.error("[spicedb] Outbox drain failed:", err));
+    }, pollIntervalMs);
+    // Do not keep the process alive just for the worker
+    timer.unref?.();
+  };
+
+  const stop = () => {
+    if (timer) clearInterval(timer);
+    timer = undefined;
+  };
+
+  return { enqueue, drain, list, retry, start, stop };
+}
@@ -0,0 +1,146 @@
+// src/permissions.ts
+import type { BulkCheckItem, BulkCheckResult, ConsistencyOption, PermissionState, PermissionStore } from "./types";
+
+type CheckBulk = (checks: BulkCheckItem[], consistency?: ConsistencyOption) => Promise<BulkCheckResult>;
+
+interface Entry {
+  item: BulkCheckItem;
+  state: PermissionState;
+  listeners: Set<(state: PermissionState) => void>;
+  // Whether the check was sent for the current session and token
+  requested: boolean;
+  answeredAt?: number;
+}
+
+const LOADING: PermissionState = { allowed: false, loading: true };
+
+/**
+ * Client-side permission cache behind `authClient.spicedb.can()`. Checks requested
+ * in the same tick go out as one check-bulk request, identical checks share an
+ * entry, and answers are kept until the session changes or a write invalidates them.
+ * Answers older than `ttlSeconds` are asked again when next listened to, and beyond
+ * `maxEntries` the least recently used answers nobody listens to are dropped.
+ */
+export function createPermissionCache(checkBulk: CheckBulk, options: { maxEntries?: number; ttlSeconds?: number } = {}) {
+  const maxEntries = options.maxEntries ?? 1_000;
+  const ttlMs = (options.ttlSeconds ?? 300) * 1000;
+  const entries = new Map<string, Entry>();
+  const queue = new Set<string>();
+  let scheduled = false;
+  // Bumped on every reset, so answers to older requests are dropped
+  let generation = 0;
+  let zedToken: string | undefined;
+
+  const setState = (entry: Entry, state: PermissionState) => {
+    entry.state = state;
+    entry.listeners.forEach((listener) => listener(state));
+  };
+
+  const flush = async () => {
+    scheduled = false;
+    const keys = [...queue];
+    queue.clear();
+    if (keys.length === 0) return;
+
+    const batch = generation;
+    // Read at least as fresh as this client's last write
+    const consistency = zedToken ? { mode: "atLeastAsFresh" as const, token: zedToken } : undefined;
+
+    let results: Array<{ allowed: boolean; error?: string }>;
+    try {
+      ({ results } = await checkBulk(keys.map((key) => entries.get(key)!.item), consistency));
+    } catch (err: any) {
+      results = keys.map(() => ({ allowed: false, error: String(err?.message ?? err) }));
+    }
+
+    if (batch !== generation) return;
+    keys.forEach((key, i) => {
+      const entry = entries.get(key);
+      if (!entry) return;
+      entry.answeredAt = Date.now();
+      setState(entry, { allowed: results[i]?.allowed ?? false, loading: false, error: results[i]?.error });
+    });
+  };
+
+  // Subscribed entries stay; the rest go oldest first
+  const evict = () => {
+    for (const [key, entry] of entries) {
+      if (entries.size <= maxEntries) return;
+      if (entry.listeners.size > 0) continue;
+      entries.delete(key);
+      queue.delete(key);
+    }
+  };
+
+  const request = (key: string) => {
+    const entry = entries.get(key)!;
+    entry.requested = true;
+    entry.answeredAt = undefined;
+    queue.add(key);
+    if (scheduled) return;
+    scheduled = true;
+    queueMicrotask(() => void flush());
+  };
+
+  // Forget unused answers and re-ask the checks that are still subscribed
+  const refresh = (state: (entry: Entry) => PermissionState) => {
+    generation++;
+    queue.clear();
+    for (const [key, entry] of entries) {
+      if (entry.listeners.size === 0) {
+        entries.delete(key);
+        continue;
+      }
+      setState(entry, state(entry));
+      request(key);
+    }
+  };
+
+  const can = (item: BulkCheckItem): PermissionStore => {
+    const key = JSON.stringify(item);
+
+    const listen = (listener: (state: PermissionState) => void) => {
+      let entry = entries.get(key);
+      if (entry) {
+        // Re-insert so the key moves to the end of the eviction order
+        entries.delete(key);
+        if (entry.answeredAt !== undefined && Date.now() - entry.answeredAt > ttlMs) {
+          entry.requested = false;
+          setState(entry, { ...entry.state, loading: true });
+        }
+      } else {
+        entry = { item, state: LOADING, listeners: new Set(), requested: false };
+      }
+      entries.set(key, entry);
+      entry.listeners.add(listener);
+      evict();
+      if (!entry.requested) request(key);
+
+      const subscribed = entry;
+      return () => {
+        subscribed.listeners.delete(listener);
+      };
+    };
+
+    return {
+      get: () => entries.get(key)?.state ?? LOADING,
+      listen,
+      subscribe: (run) => {
+        const unsubscribe = listen(run);
+        run(entries.get(key)!.state);
+        return unsubscribe;
+      },
+    };
+  };
+
+  return {
+    can,
+    // A different user: previous answers must not show, even briefly
+    reset: () => refresh(() => LOADING),
+    // A write: keep showing the old answer until the new one arrives
+    invalidate: (token?: string) => {
+      if (token) zedToken = token;
+      refresh((entry) => ({ ...entry.state, loading: true }));
+    },
+  };
+}
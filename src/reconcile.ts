@@ -0,0 +1,176 @@
+// src/reconcile.ts
+import type { AuthContext } from "better-auth";
+import { mappingUpdates, relationshipKey, type AnyRelationshipMapping } from "./mappings";
+import type {
+  ReconcileGroupReport,
+  ReconcileParams,
+  ReconcileResult,
+  RelationshipFilter,
+  RelationshipRecord,
+  RelationshipUpdate,
+} from "./types";
+
+type FindManyQuery = Parameters<AuthContext["adapter"]["findMany"]>[0];
+
+// SpiceDB rejects writes with more than 1000 updates by default
+const WRITE_CHUNK_SIZE = 500;
+
+/**
+ * Page through a Better Auth model, for use as a mapping `source`
+ */
+export async function* paginate<T = any>(
+  adapter: Pick<AuthContext["adapter"], "findMany">,
+  model: string,
+  options: { where?: FindManyQuery["where"]; pageSize?: number } = {}
+): AsyncGenerator<T> {
+  const pageSize = options.pageSize ?? 500;
+
+  for (let offset = 0; ; offset += pageSize) {
+    const page = await adapter.findMany<T>({
+      model,
+      where: options.where,
+      limit: pageSize,
+      offset,
+      // A stable order keeps offsets from skipping or repeating rows
+      sortBy: { field: "id", direction: "asc" },
+    });
+    yield* page;
+    if (page.length < pageSize) return;
+  }
+}
+
+const toRecord = (update: RelationshipUpdate): RelationshipRecord => ({
+  resource: update.resource,
+  relation: update.relation,
+  subject: update.subject,
+  caveat: update.caveat,
+  expiresAt: update.expiresAt ? new Date(update.expiresAt) : undefined,
+});
+
+/**
+ * Compares what the mapping sources say should exist with what SpiceDB holds.
+ * Mappings are grouped by resource type, relation and subject type, since
+ * that is the granularity relationships can be read back at.
+ */
+export function createReconciler(
+  mappings: AnyRelationshipMapping[],
+  readRelationships: (filter: RelationshipFilter, pageSize: number) => AsyncIterable<RelationshipRecord>,
+  writeRelationships: (updates: RelationshipUpdate[]) => Promise<string | undefined>
+) {
+  const groups = new Map<string, AnyRelationshipMapping[]>();
+  // Delete mappings say nothing about which relationships should exist
+  for (const mapping of mappings.filter((m) => m.operation !== "delete")) {
+    const key = `${mapping.resourceType}#${mapping.relation}@${mapping.subjectType}${mapping.subjectRelation ? `#${mapping.subjectRelation}` : ""}`;
+    groups.set(key, [...(groups.get(key) ?? []), mapping]);
+  }
+
+  // Groups limited to the requested resource types
+  const selectedGroups = (params: ReconcileParams) => [...groups].filter(([, groupMappings]) =>
+    !params.resourceTypes || params.resourceTypes.includes(groupMappings[0].resourceType)
+  );
+
+  // Groups whose sources would yield every tenant's rows into a single tenant's comparison
+  const tenantUnaware = (params: ReconcileParams = {}) => selectedGroups(params)
+    .filter(([, groupMappings]) => groupMappings.every((mapping) => mapping.source))
+    .filter(([, groupMappings]) => groupMappings.some((mapping) => !mapping.tenantAware))
+    .map(([key]) => key);
+
+  const reconcileGroup = async (
+    adapter: AuthContext["adapter"],
+    groupMappings: AnyRelationshipMapping[],
+    pageSize: number,
+    tenantId: string | undefined
+  ) => {
+    const { resourceType, relation, subjectType, subjectRelation } = groupMappings[0];
+    const expected = new Map<string, RelationshipUpdate>();
+    const now = Date.now();
+
+    for (const mapping of groupMappings) {
+      for await (const event of mapping.source!({ adapter, pageSize, tenantId })) {
+        for (const update of mappingUpdates(mapping, event)) {
+          // SpiceDB no longer returns relationships that have expired
+          if (update.expiresAt && new Date(update.expiresAt).getTime() <= now) continue;
+          expected.set(relationshipKey(update), update);
+        }
+      }
+    }
+
+    const expectedCount = expected.size;
+    const extra: RelationshipRecord[] = [];
+    let actual = 0;
+
+    // Stream SpiceDB and tick off expected relationships; what remains is missing
+    const filter = { resourceType, relation, subject: { type: subjectType, relation: subjectRelation ?? "" } };
+    for await (const record of readRelationships(filter, pageSize)) {
+      actual++;
+      const key = relationshipKey(record);
+      if (!expected.delete(key)) extra.push(record);
+    }
+
+    return {
+      resourceType,
+      relation,
+      subjectType,
+      subjectRelation,
+      expected: expectedCount,
+      actual,
+      missing: [...expected.values()],
+      extra,
+    };
+  };
+
+  const reconcile = async (
+    adapter: AuthContext["adapter"],
+    params: ReconcileParams = {},
+    tenantId?: string
+  ): Promise<ReconcileResult> => {
+    const dryRun = params.dryRun ?? true;
+    const pageSize = params.pageSize ?? 500;
+    const maxReported = params.maxReported ?? 100;
+
+    const result: ReconcileResult = { dryRun, groups: [], skipped: [], written: 0, deleted: 0 };
+
+    for (const [key, groupMappings] of selectedGroups(params)) {
+      // Without a source for every mapping, relationships from the others would look extra
+      if (groupMappings.some((mapping) => !mapping.source)) {
+        result.skipped.push(key);
+        continue;
+      }
+
+      const group = await reconcileGroup(adapter, groupMappings, pageSize, tenantId);
+      const report: ReconcileGroupReport = {
+        ...group,
+        missingCount: group.missing.length,
+        extraCount: group.extra.length,
+        missing: group.missing.slice(0, maxReported).map(toRecord),
+        extra: group.extra.slice(0, maxReported),
+      };
+      result.groups.push(report);
+
+      if (group.missing.length || group.extra.length) {
+        console.log(`[spicedb] Drift in ${key}: ${group.missing.length} missing, ${group.extra.length} extra`);
+      }
+      if (dryRun) continue;
+
+      const updates: RelationshipUpdate[] = [
+        ...group.missing,
+        ...group.extra.map((record): RelationshipUpdate => ({
+          operation: "delete",
+          resource: record.resource,
+          relation: record.relation,
+          subject: record.subject,
+        })),
+      ];
+
+      for (let i = 0; i < updates.length; i += WRITE_CHUNK_SIZE) {
+        result.zedToken = await writeRelationships(updates.slice(i, i + WRITE_CHUNK_SIZE)) ?? result.zedToken;
+      }
+      result.written += group.missing.length;
+      result.deleted += group.extra.length;
+    }
+
+    return result;
+  };
+
+  return { reconcile, tenantUnaware };
+}
@@ -0,0 +1,172 @@
+// src/schema-sync.ts
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { parseSchema } from "./schema";
+import type { AnyRelationshipMapping } from "./mappings";
+import type { ParsedSchema, SchemaOptions, SchemaSubjectType, SchemaSyncResult } from "./types";
+
+export interface SchemaSyncDeps {
+  // Resolves to an empty string when SpiceDB has no schema yet
+  readSchema: () => Promise<string>;
+  writeSchema: (schema: string) => Promise<string | undefined>;
+}
+
+// Schema text always contains a definition or caveat; anything else is a path
+const loadSchema = (source: string) =>
+  /\b(definition|caveat)\s/.test(source) ? source : readFileSync(resolve(source), "utf8");
+
+const subjectText = (subject: SchemaSubjectType) => {
+  const base = subject.wildcard ? `${subject.type}:*` : subject.relation ? `${subject.type}#${subject.relation}` : subject.type;
+  const traits = [...(subject.caveat ? [subject.caveat] : []), ...(subject.expiration ? ["expiration"] : [])];
+  return traits.length ? `${base} with ${traits.join(" and ")}` : base;
+};
+
+// "acme/agent" → "agent"; tenant-prefixed schemas name the same definitions once per tenant
+const stripPrefix = (name: string) => name.slice(name.indexOf("/") + 1);
+
+const stripTenantPrefixes = (schema: ParsedSchema): ParsedSchema => ({
+  definitions: schema.definitions.map((definition) => ({
+    ...definition,
+    name: stripPrefix(definition.name),
+    relations: definition.relations.map((relation) => ({
+      ...relation,
+      subjectTypes: relation.subjectTypes.map((subject) => ({
+        ...subject,
+        type: stripPrefix(subject.type),
+        caveat: subject.caveat && stripPrefix(subject.caveat),
+      })),
+    })),
+  })),
+  caveats: schema.caveats.map((caveat) => ({ ...caveat, name: stripPrefix(caveat.name) })),
+});
+
+// SpiceDB returns the schema reformatted, so only whitespace-insensitive content is compared
+const compact = (text: string) => text.replace(/\s+/g, "");
+
+// Flatten a schema into one comparable entry per definition, relation, permission and caveat
+const schemaEntries = (schema: ParsedSchema) => {
+  const entries = new Map<string, string>();
+  for (const definition of schema.definitions) {
+    entries.set(`definition ${definition.name}`, "");
+    for (const relation of definition.relations) {
+      entries.set(`relation ${definition.name}#${relation.name}`, relation.subjectTypes.map(subjectText).sort().join(" | "));
+    }
+    for (const permission of definition.permissions) {
+      entries.set(`permission ${definition.name}#${permission.name}`, permission.expression);
+    }
+  }
+  for (const caveat of schema.caveats) {
+    const parameters = caveat.parameters.map((p) => `${p.name} ${p.type}`).join(", ");
+    entries.set(`caveat ${caveat.name}`, `(${parameters}) ${caveat.expression.replace(/\s+/g, " ")}`);
+  }
+  return entries;
+};
+
+/**
+ * Lists what differs between two schemas, from the point of view of `expected`
+ */
+export function diffSchemas(expected: ParsedSchema, actual: ParsedSchema): string[] {
+  const want = schemaEntries(expected);
+  const have = schemaEntries(actual);
+  const differences: string[] = [];
+
+  for (const [key, value] of want) {
+    const found = have.get(key);
+    if (found === undefined) differences.push(`${key} is missing`);
+    else if (compact(found) !== compact(value)) differences.push(`${key} differs: expected "${value}", found "${found}"`);
+  }
+  for (const key of have.keys()) {
+    if (!want.has(key)) differences.push(`${key} is not in the configured schema`);
+  }
+
+  return differences;
+}
+
+/**
+ * Lists the mappings that would write relationships the schema rejects
+ */
+export function validateMappings(schema: ParsedSchema, mappings: AnyRelationshipMapping[]): string[] {
+  const errors: string[] = [];
+
+  for (const mapping of mappings) {
+    const subject = mapping.subjectRelation ? `${mapping.subjectType}#${mapping.subjectRelation}` : mapping.subjectType;
+    const label = `${mapping.on}: ${mapping.resourceType}#${mapping.relation}@${subject}`;
+
+    const definition = schema.definitions.find((d) => d.name === mapping.resourceType);
+    if (!definition) {
+      errors.push(`${label} - no definition "${mapping.resourceType}"`);
+      continue;
+    }
+
+    const relation = definition.relations.find((r) => r.name === mapping.relation);
+    if (!relation) {
+      const isPermission = definition.permissions.some((p) => p.name === mapping.relation);
+      errors.push(`${label} - "${mapping.relation}" is ${isPermission ? "a permission, not a relation" : `not a relation of ${mapping.resourceType}`}`);
+      continue;
+    }
+
+    if (mapping.caveatName && !schema.caveats.some((c) => c.name === mapping.caveatName)) {
+      errors.push(`${label} - no caveat "${mapping.caveatName}"`);
+      continue;
+    }
+
+    // The written relationship must match one allowed subject type exactly, traits included
+    const allowed = relation.subjectTypes.some((s) =>
+      s.type === mapping.subjectType &&
+      (s.relation ?? "") === (mapping.subjectRelation ?? "") &&
+      s.caveat === mapping.caveatName &&
+      !!s.expiration === !!mapping.expiresAt
+    );
+    if (!allowed) {
+      const traits = [...(mapping.caveatName ? [mapping.caveatName] : []), ...(mapping.expiresAt ? ["expiration"] : [])];
+      const written = traits.length ? `${subject} with ${traits.join(" and ")}` : subject;
+      errors.push(`${label} - ${written} is not allowed (allowed: ${relation.subjectTypes.map(subjectText).join(" | ")})`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Loads the configured schema and keeps SpiceDB's in line with it.
+ * With `tenantPrefixed`, SpiceDB holds a copy of the schema per tenant, so only
+ * mappings are validated, against the definitions with their tenant removed.
+ */
+export function createSchemaSync(options: SchemaOptions, deps: SchemaSyncDeps, tenantPrefixed = false) {
+  if (tenantPrefixed && options.onDrift) {
+    throw new Error("[spicedb] schema.onDrift cannot be used with the typePrefix tenant strategy, since SpiceDB holds one prefixed schema per tenant");
+  }
+
+  const text = loadSchema(options.source);
+  const parsed = parseSchema(text);
+
+  // Throws with every problem at once, so a misconfiguration is fixed in one go
+  const assertMappings = (mappings: AnyRelationshipMapping[]) => {
+    const errors = validateMappings(tenantPrefixed ? stripTenantPrefixes(parsed) : parsed, mappings);
+    if (errors.length) {
+      throw new Error(`[spicedb] Relationship mappings do not match the schema:\n  ${errors.join("\n  ")}`);
+    }
+  };
+
+  const sync = async (onDrift = options.onDrift ?? "warn"): Promise<SchemaSyncResult> => {
+    // Every tenant's definitions would show as drift, and writing would replace them all
+    if (tenantPrefixed) {
+      throw new Error("[spicedb] The schema cannot be compared with the typePrefix tenant strategy; apply each tenant's schema with zed");
+    }
+    const differences = diffSchemas(parsed, parseSchema(await deps.readSchema()));
+    if (differences.length === 0) return { inSync: true, differences, written: false };
+
+    const summary = `SpiceDB schema differs from the configured schema:\n  ${differences.join("\n  ")}`;
+    if (onDrift === "error") throw new Error(`[spicedb] ${summary}`);
+    if (onDrift === "warn") {
+      console.warn(`[spicedb] ${summary}`);
+      return { inSync: false, differences, written: false };
+    }
+
+    const zedToken = await deps.writeSchema(text);
+    console.log(`[spicedb] Wrote schema (${differences.length} changes)`);
+    return { inSync: true, differences, written: true, zedToken };
+  };
+
+  return { parsed, assertMappings, sync };
+}
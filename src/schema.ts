@@ -0,0 +1,130 @@
+// src/schema.ts
+import type {
+  ParsedSchema,
+  SchemaDefinitionNode,
+  SchemaCaveatNode,
+  SchemaSubjectType,
+} from "./types";
+
+// Remove line, block and doc comments before parsing
+const stripComments = (text: string) =>
+  text
+    .replace(/\/\*[\s\S]*?\*\//g, " ")
+    .replace(/\/\/.*$/gm, "");
+
+// Find the index of the brace that closes the one opened at `start`
+const findClosingBrace = (text: string, start: number) => {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === "{") depth++;
+    if (text[i] === "}") {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  throw new Error(`[spicedb] Unbalanced braces in schema near offset ${start}`);
+};
+
+// Parse a single allowed subject, e.g. "user", "user:*", "group#member with caveat_name"
+const parseSubjectType = (raw: string): SchemaSubjectType => {
+  const [ref, ...traitParts] = raw.trim().split(/\s+with\s+/);
+  const traits = traitParts.join(" ").split(/\s+and\s+/).map((t) => t.trim()).filter(Boolean);
+
+  const subject: SchemaSubjectType = { type: ref.trim() };
+
+  if (subject.type.endsWith(":*")) {
+    subject.type = subject.type.slice(0, -2);
+    subject.wildcard = true;
+  } else if (subject.type.includes("#")) {
+    const [type, relation] = subject.type.split("#");
+    subject.type = type;
+    subject.relation = relation;
+  }
+
+  for (const trait of traits) {
+    if (trait === "expiration") subject.expiration = true;
+    else subject.caveat = trait;
+  }
+
+  return subject;
+};
+
+const parseDefinitionBody = (name: string, body: string): SchemaDefinitionNode => {
+  const definition: SchemaDefinitionNode = { name, relations: [], permissions: [] };
+  const statement = /\b(relation|permission)\s+(\w+)\s*(?::|=)\s*([\s\S]*?)(?=\b(?:relation|permission)\s+\w+\s*[:=]|$)/g;
+
+  for (const match of body.matchAll(statement)) {
+    const [, kind, statementName, rawExpression] = match;
+    const expression = rawExpression.trim().replace(/\s+/g, " ");
+
+    if (kind === "relation") {
+      definition.relations.push({
+        name: statementName,
+        subjectTypes: expression.split("|").map(parseSubjectType),
+      });
+    } else {
+      definition.permissions.push({ name: statementName, expression });
+    }
+  }
+
+  return definition;
+};
+
+const parseCaveatParameters = (raw: string): SchemaCaveatNode["parameters"] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  // Split on top-level commas only, so generic types like map<string> stay intact
+  for (const char of raw) {
+    if (char === "<") depth++;
+    if (char === ">") depth--;
+    if (char === "," && depth === 0) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .map((p) => {
+      const [paramName, ...type] = p.split(/\s+/);
+      return { name: paramName, type: type.join(" ") };
+    });
+};
+
+/**
+ * Parse a SpiceDB schema (the contents of a schema.zed file) into its
+ * definitions, relations, permissions and caveats
+ */
+export function parseSchema(text: string): ParsedSchema {
+  const source = stripComments(text);
+  const schema: ParsedSchema = { definitions: [], caveats: [] };
+  const block = /\b(definition|caveat)\s+([\w/]+)\s*(\(([^)]*)\))?\s*\{/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = block.exec(source))) {
+    const [header, kind, name, , rawParameters] = match;
+    const open = match.index + header.length - 1;
+    const close = findClosingBrace(source, open);
+    const body = source.slice(open + 1, close);
+
+    if (kind === "definition") {
+      schema.definitions.push(parseDefinitionBody(name, body));
+    } else {
+      schema.caveats.push({
+        name,
+        parameters: parseCaveatParameters(rawParameters ?? ""),
+        expression: body.trim(),
+      });
+    }
+
+    block.lastIndex = close + 1;
+  }
+
+  return schema;
+}
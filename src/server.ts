@@ -1,13 +1,148 @@
 // src/server.ts
 import type { BetterAuthPlugin } from "better-auth";
 import { v1 } from "@authzed/authzed-node";
-import struct_pb from "google-protobuf/google/protobuf/struct_pb";
-const { Struct } = struct_pb;
 import { createAuthEndpoint, getSessionFromCtx } from "better-auth/api";
 import { z } from "zod";
-import type { SpiceDBPluginOptions } from "./types";
+import type {
+  SpiceDBPluginOptions,
+  SchemaDefinition,
+  AnySchema,
+  SpiceDBSession,
+  SubjectReference,
+  ConsistencyOption,
+  ZedTokenEntry,
+  HookContext,
+  RelationshipCaveat,
+  RelationshipUpdate,
+  RelationshipFilter,
+  RelationshipRecord,
+  Precondition,
+  LookupSubject,
+  LookupSubjectsResult,
+  LookupResource,
+  LookupResourcesStreamParams,
+  DeleteRelationshipsParams,
+  DeleteRelationshipsResult,
+  SchemaOptions,
+  RelationshipOperation,
+  CheckCacheStore,
+  CheckCacheStats,
+  WatchParams,
+} from "./types";
+import { SPICEDB_ERROR_CODES, type SpiceDBErrorCode } from "./error-codes";
+import { createMemoryTokenStore } from "./tokens";
+import { createOutbox, outboxSchema, type OutboxAdapter } from "./outbox";
+import { dedupeUpdates, mappingUpdates, relationshipKey, replaceFilters } from "./mappings";
+import { createReconciler } from "./reconcile";
+import { createOrganizationSync } from "./organizations";
+import { createCleanup } from "./cleanup";
+import { createExplainers } from "./explain";
+import { createSchemaSync } from "./schema-sync";
+import { createWatcher } from "./watch";
+import { createCheckCache, createMemoryCheckStore } from "./check-cache";
+import { createTenancy, type TenantRequest } from "./tenants";
 
-export const spicedb = (options: SpiceDBPluginOptions) => {
+const consistencySchema = z.discriminatedUnion("mode", [
+  z.object({ mode: z.literal("minimizeLatency") }),
+  z.object({ mode: z.literal("atLeastAsFresh"), token: z.string() }),
+  z.object({ mode: z.literal("atExactSnapshot"), token: z.string() }),
+  z.object({ mode: z.literal("fullyConsistent") }),
+]);
+
+const relationshipFilterSchema = z.object({
+  resourceType: z.string(),
+  resourceId: z.string().optional(),
+  resourceIdPrefix: z.string().optional(),
+  relation: z.string().optional(),
+  subject: z.object({
+    type: z.string(),
+    id: z.string().optional(),
+    relation: z.string().optional(),
+  }).optional(),
+});
+
+const relationshipUpdateSchema = z.object({
+  operation: z.enum(["touch", "create", "delete"]),
+  resource: z.object({
+    type: z.string(),
+    id: z.string(),
+  }),
+  relation: z.string(),
+  subject: z.object({
+    type: z.string(),
+    id: z.string(),
+    relation: z.string().optional(),
+  }),
+  caveat: z.object({
+    name: z.string(),
+    context: z.record(z.any()).optional(),
+  }).optional(),
+  expiresAt: z.coerce.date().optional(),
+});
+
+const preconditionSchema = z.object({
+  operation: z.enum(["mustMatch", "mustNotMatch"]),
+  filter: relationshipFilterSchema,
+});
+
+const UPDATE_OPERATIONS = {
+  touch: v1.RelationshipUpdate_Operation.TOUCH,
+  create: v1.RelationshipUpdate_Operation.CREATE,
+  delete: v1.RelationshipUpdate_Operation.DELETE,
+};
+
+const UPDATE_OPERATION_NAMES: Record<number, RelationshipOperation> = {
+  [v1.RelationshipUpdate_Operation.TOUCH]: "touch",
+  [v1.RelationshipUpdate_Operation.CREATE]: "create",
+  [v1.RelationshipUpdate_Operation.DELETE]: "delete",
+};
+
+const PRECONDITION_OPERATIONS = {
+  mustMatch: v1.Precondition_Operation.MUST_MATCH,
+  mustNotMatch: v1.Precondition_Operation.MUST_NOT_MATCH,
+};
+
+// gRPC status code SpiceDB returns when a precondition does not hold
+const GRPC_FAILED_PRECONDITION = 9;
+
+// Page size of lookup-resources when a cursor is passed without a limit
+const DEFAULT_LOOKUP_PAGE_SIZE = 100;
+
+// gRPC status code ReadSchema returns before any schema has been written
+const GRPC_NOT_FOUND = 5;
+
+// Caveat context must be a protobuf-ts Struct; the JSON round-trip turns Dates into ISO strings
+const toStruct = (context: Record<string, any>) =>
+  v1.PbStruct.fromJson(JSON.parse(JSON.stringify(context)));
+
+const toTimestamp = (date: Date) => ({
+  seconds: Math.floor(date.getTime() / 1000).toString(),
+  nanos: (date.getTime() % 1000) * 1_000_000,
+});
+
+// Convert the plugin's consistency option into a SpiceDB Consistency message
+const toConsistency = (consistency: ConsistencyOption) => {
+  switch (consistency.mode) {
+    case "atLeastAsFresh":
+      return v1.Consistency.create({
+        requirement: { oneofKind: "atLeastAsFresh", atLeastAsFresh: v1.ZedToken.create({ token: consistency.token }) },
+      });
+    case "atExactSnapshot":
+      return v1.Consistency.create({
+        requirement: { oneofKind: "atExactSnapshot", atExactSnapshot: v1.ZedToken.create({ token: consistency.token }) },
+      });
+    case "fullyConsistent":
+      return v1.Consistency.create({
+        requirement: { oneofKind: "fullyConsistent", fullyConsistent: true },
+      });
+    default:
+      return v1.Consistency.create({
+        requirement: { oneofKind: "minimizeLatency", minimizeLatency: true },
+      });
+  }
+};
+
+export const spicedb = <S extends SchemaDefinition = AnySchema>(options: SpiceDBPluginOptions<S>) => {
   const client = v1.NewClient(
     options.token,
     options.endpoint,
@@ -16,131 +151,668 @@ export const spicedb = (options: SpiceDBPluginOptions) => {
 
   const { promises: promiseClient } = client;
 
-  const namespace = (id: string) => options.namespace ? `${options.namespace}${id}` : id;
+  // Objects are qualified with the namespace or the request's tenant on the way in and stripped on the way out
+  const tenancy = createTenancy(options);
 
-  // Internal helper to write relationships
-  const writeRelationship = async (
-    resource: { type: string; id: string },
-    relation: string,
-    subject: { type: string; id: string }
+  const { toPermissionTree, toExplanation } = createExplainers((type, id) => tenancy.current().fromObject(type, id));
+
+  const toObjectReference = (object: { type: string; id: string }) => {
+    const scope = tenancy.current();
+    return v1.ObjectReference.create({ objectType: scope.objectType(object.type), objectId: scope.objectId(object.id) });
+  };
+
+  const toSubjectReference = (subject: SubjectReference) => v1.SubjectReference.create({
+    object: toObjectReference(subject),
+    optionalRelation: subject.relation ?? "",
+  });
+
+  // Keys for the check cache and token store, which are shared by every tenant
+  const qualify = <T extends { type: string; id: string }>(object: T): T => {
+    const { objectType, objectId } = toObjectReference(object);
+    return { ...object, type: objectType, id: objectId };
+  };
+
+  const formatSubject = (subject: SubjectReference) =>
+    `${subject.type}:${subject.id}${subject.relation ? `#${subject.relation}` : ""}`;
+
+  const adminRoles = options.impersonation?.adminRoles ?? ["admin"];
+  const serviceSubjectTypes = options.impersonation?.serviceSubjectTypes ?? [];
+
+  // Better Auth's admin plugin stores multiple roles as a comma-separated string
+  const isAdmin = (session: SpiceDBSession | null) => {
+    const role = session?.user?.role;
+    if (!role) return false;
+    return role.split(",").some((r) => adminRoles.includes(r.trim()));
+  };
+
+  const forbidden = (code: SpiceDBErrorCode) => ({
+    status: 403 as const,
+    body: { reason: "forbidden", code, error: SPICEDB_ERROR_CODES[code] },
+  });
+
+  const unauthenticated = () => ({
+    status: 401 as const,
+    body: { reason: "unauthenticated" },
+  });
+
+  // Calls through auth.api without a request or headers are trusted server calls
+  const isTrustedCall = (ctx: { request?: Request; headers?: Headers }) => !ctx.request && !ctx.headers;
+
+  // Resolve the subject a read runs as, enforcing the impersonation policy
+  const resolveSubject = async (
+    session: SpiceDBSession | null,
+    subjectType: string,
+    subjectId?: string,
+    trusted = false
+  ): Promise<{ subject: SubjectReference } | ReturnType<typeof forbidden | typeof unauthenticated>> => {
+    // Trusted calls have no session and name their subject explicitly
+    if (trusted && subjectId) return { subject: { type: subjectType, id: subjectId } };
+    if (!session?.user?.id) return unauthenticated();
+
+    const subject = { type: subjectType, id: subjectId || session.user.id };
+    if (subject.type === "user" && subject.id === session.user.id) return { subject };
+
+    if (isAdmin(session)) return { subject };
+    if (serviceSubjectTypes.includes(subject.type)) return { subject };
+    if (await options.impersonation?.canActAs?.(session, subject)) return { subject };
+
+    console.warn(`[spicedb] Blocked user:${session.user.id} acting as ${subject.type}:${subject.id}`);
+    return forbidden("SUBJECT_IMPERSONATION_FORBIDDEN");
+  };
+
+  // Guard for endpoints that manage relationships directly; trusted calls pass
+  const authorizeAdmin = async (
+    ctx: Parameters<typeof getSessionFromCtx>[0]
+  ): Promise<{ session: SpiceDBSession | null } | ReturnType<typeof forbidden | typeof unauthenticated>> => {
+    if (isTrustedCall(ctx)) return { session: null };
+
+    const session = await getSessionFromCtx(ctx);
+    if (!session?.user?.id) return unauthenticated();
+    if (!isAdmin(session)) return forbidden("ADMIN_REQUIRED");
+    return { session };
+  };
+
+  // What the tenant resolver sees of an endpoint call
+  const tenantRequest = (ctx: Parameters<typeof getSessionFromCtx>[0]): TenantRequest => ({
+    headers: ctx.headers,
+    request: ctx.request,
+    body: ctx.body,
+    query: ctx.query,
+    session: () => getSessionFromCtx(ctx),
+  });
+
+  // Run an endpoint inside the caller's tenant
+  const scoped = <C extends Parameters<typeof getSessionFromCtx>[0], R>(handler: (ctx: C) => Promise<R>) =>
+    (ctx: C) => tenancy.runFor(tenantRequest(ctx), () => handler(ctx));
+
+  const tokenStore = options.consistency?.store ?? createMemoryTokenStore();
+  const tracking = options.consistency?.track;
+
+  // Keys a write's ZedToken is stored under, and later looked up by
+  const trackingKeys = (session: SpiceDBSession | null | undefined, objects: SubjectReference[]) => {
+    if (tracking === "session") {
+      return session?.session?.id ? [`session:${session.session.id}`] : [];
+    }
+    return objects.map(qualify).map((object) => `${object.type}:${object.id}`);
+  };
+
+  const trackToken = async (
+    token: string | undefined,
+    session: SpiceDBSession | null | undefined,
+    objects: SubjectReference[]
   ) => {
+    if (!token || !tracking) return;
+    const entry = { token, writtenAt: Date.now() };
+    await Promise.all(trackingKeys(session, objects).map((key) => tokenStore.set(key, entry)));
+  };
+
+  // Explicit mode first, then the freshest tracked token, then the configured default
+  const resolveConsistency = async (
+    requested: ConsistencyOption | undefined,
+    session: SpiceDBSession | null,
+    objects: SubjectReference[]
+  ) => {
+    if (requested) return toConsistency(requested);
+
+    if (tracking) {
+      const entries = await Promise.all(trackingKeys(session, objects).map((key) => tokenStore.get(key)));
+      const freshest = entries.reduce<ZedTokenEntry | undefined>(
+        (latest, entry) => (entry && (!latest || entry.writtenAt > latest.writtenAt) ? entry : latest),
+        undefined
+      );
+      if (freshest) return toConsistency({ mode: "atLeastAsFresh", token: freshest.token });
+    }
+
+    return toConsistency({ mode: options.consistency?.default ?? "minimizeLatency" });
+  };
+
+  const toRelationshipFilter = (filter: RelationshipFilter) => {
+    const scope = tenancy.current();
+    return v1.RelationshipFilter.create({
+      resourceType: scope.objectType(filter.resourceType),
+      optionalResourceId: filter.resourceId ? scope.objectId(filter.resourceId) : "",
+      // Without a resource ID, stay inside the namespace or tenant
+      optionalResourceIdPrefix: filter.resourceId ? "" : scope.objectId(filter.resourceIdPrefix ?? ""),
+      optionalRelation: filter.relation ?? "",
+      optionalSubjectFilter: filter.subject
+        ? v1.SubjectFilter.create({
+            subjectType: scope.objectType(filter.subject.type),
+            optionalSubjectId: filter.subject.id ? scope.objectId(filter.subject.id) : "",
+            optionalRelation: filter.subject.relation !== undefined
+              ? v1.SubjectFilter_RelationFilter.create({ relation: filter.subject.relation })
+              : undefined,
+          })
+        : undefined,
+    });
+  };
+
+  const cacheOptions = options.cache === true ? {} : options.cache || undefined;
+  // Set here, or once Better Auth initialises the plugin when its secondary storage is used
+  let cacheStore: CheckCacheStore | undefined = cacheOptions && cacheOptions.store !== "secondaryStorage"
+    ? cacheOptions.store ?? createMemoryCheckStore(cacheOptions.maxEntries)
+    : undefined;
+  const checkCache = cacheOptions
+    ? createCheckCache(cacheOptions.ttlSeconds ?? 60, () => {
+        if (!cacheStore) throw new Error("[spicedb] Check cache store is not initialised yet");
+        return cacheStore;
+      })
+    : undefined;
+
+  // Apply all updates in one atomic WriteRelationships call
+  const writeRelationships = async (updates: RelationshipUpdate[], preconditions: Precondition[] = []) => {
     const request = v1.WriteRelationshipsRequest.create({
-      updates: [{
-        operation: v1.RelationshipUpdate_Operation.TOUCH,
+      updates: updates.map((update) => v1.RelationshipUpdate.create({
+        operation: UPDATE_OPERATIONS[update.operation],
         relationship: v1.Relationship.create({
-          resource: v1.ObjectReference.create({ 
-            objectType: resource.type, 
-            objectId: namespace(resource.id) 
-          }),
-          relation,
-          subject: v1.SubjectReference.create({
-            object: v1.ObjectReference.create({ 
-              objectType: subject.type, 
-              objectId: namespace(subject.id) 
-            })
-          }),
+          resource: toObjectReference(update.resource),
+          relation: update.relation,
+          subject: toSubjectReference(update.subject),
+          optionalCaveat: update.caveat
+            ? v1.ContextualizedCaveat.create({
+                caveatName: tenancy.current().caveatName(update.caveat.name),
+                context: update.caveat.context ? toStruct(update.caveat.context) : undefined,
+              })
+            : undefined,
+          optionalExpiresAt: update.expiresAt ? toTimestamp(new Date(update.expiresAt)) : undefined,
         }),
-      }],
+      })),
+      optionalPreconditions: preconditions.map((precondition) => v1.Precondition.create({
+        operation: PRECONDITION_OPERATIONS[precondition.operation],
+        filter: toRelationshipFilter(precondition.filter),
+      })),
     });
-    await promiseClient.writeRelationships(request);
+    const response = await promiseClient.writeRelationships(request);
+    await checkCache?.invalidate(updates.flatMap((update) => [qualify(update.resource), qualify(update.subject)]));
+    return response.writtenAt?.token;
   };
 
+  // Internal helper to write relationships
+  const writeRelationship = (
+    resource: { type: string; id: string },
+    relation: string,
+    subject: SubjectReference,
+    extras: { caveat?: RelationshipCaveat; expiresAt?: Date } = {}
+  ) => writeRelationships([{ operation: "touch", resource, relation, subject, ...extras }]);
+
   // Internal helper to delete relationships
-  const deleteRelationship = async (
+  const deleteRelationship = (
     resource: { type: string; id: string },
     relation: string,
-    subject: { type: string; id: string }
+    subject: SubjectReference
+  ) => writeRelationships([{ operation: "delete", resource, relation, subject }]);
+
+  // Delete every relationship matching the filter in one call.
+  // With a limit, SpiceDB deletes nothing when more relationships match, unless partial deletions are allowed.
+  const deleteRelationshipsMatching = async (
+    filter: RelationshipFilter,
+    extras: { limit?: number; allowPartialDeletions?: boolean; preconditions?: Precondition[] } = {}
   ) => {
-    const request = v1.WriteRelationshipsRequest.create({
-      updates: [{
-        operation: v1.RelationshipUpdate_Operation.DELETE,
-        relationship: v1.Relationship.create({
-          resource: v1.ObjectReference.create({ 
-            objectType: resource.type, 
-            objectId: namespace(resource.id) 
-          }),
-          relation,
-          subject: v1.SubjectReference.create({
-            object: v1.ObjectReference.create({ 
-              objectType: subject.type, 
-              objectId: namespace(subject.id) 
-            })
-          }),
-        }),
-      }],
+    const response = await promiseClient.deleteRelationships(v1.DeleteRelationshipsRequest.create({
+      relationshipFilter: toRelationshipFilter(filter),
+      optionalPreconditions: (extras.preconditions ?? []).map((precondition) => v1.Precondition.create({
+        operation: PRECONDITION_OPERATIONS[precondition.operation],
+        filter: toRelationshipFilter(precondition.filter),
+      })),
+      optionalLimit: extras.limit ?? 0,
+      optionalAllowPartialDeletions: extras.allowPartialDeletions ?? false,
+    }));
+
+    // Every deleted relationship shares the filter's resource or subject; otherwise any result may be affected
+    await checkCache?.invalidate([
+      filter.resourceId
+        ? qualify({ type: filter.resourceType, id: filter.resourceId })
+        : filter.subject?.id ? qualify({ type: filter.subject.type, id: filter.subject.id }) : "*",
+    ]);
+
+    return {
+      deleted: Number(response.relationshipsDeletedCount),
+      complete: response.deletionProgress !== v1.DeleteRelationshipsResponse_DeletionProgress.PARTIAL,
+      zedToken: response.deletedAt?.token,
+    };
+  };
+
+  // Undefined when the resource or subject belongs to another tenant
+  const toRecord = (relationship: v1.Relationship, scope = tenancy.current()): RelationshipRecord | undefined => {
+    const resource = scope.fromObject(relationship.resource!.objectType, relationship.resource!.objectId);
+    const subject = scope.fromObject(relationship.subject!.object!.objectType, relationship.subject!.object!.objectId);
+    if (!resource || !subject) return undefined;
+
+    return {
+      resource,
+      relation: relationship.relation,
+      subject: { ...subject, relation: relationship.subject!.optionalRelation || undefined },
+      caveat: relationship.optionalCaveat
+        ? {
+            name: scope.fromCaveatName(relationship.optionalCaveat.caveatName),
+            context: relationship.optionalCaveat.context
+              ? v1.PbStruct.toJson(relationship.optionalCaveat.context) as Record<string, any>
+              : undefined,
+          }
+        : undefined,
+      expiresAt: relationship.optionalExpiresAt
+        ? new Date(Number(relationship.optionalExpiresAt.seconds) * 1000 + relationship.optionalExpiresAt.nanos / 1_000_000)
+        : undefined,
+    };
+  };
+
+  // The tenant is read when watching starts; the stream is consumed later
+  const watch = (params: WatchParams = {}) => {
+    const scope = tenancy.current();
+    const watcher = createWatcher({
+      openStream: (request) => client.watch(request),
+      // Changes of other tenants are skipped
+      toChange: (update, zedToken) => {
+        const record = update.relationship && toRecord(update.relationship, scope);
+        return record && { operation: UPDATE_OPERATION_NAMES[update.operation], ...record, zedToken };
+      },
     });
-    await promiseClient.writeRelationships(request);
+    return watcher({ ...params, objectTypes: params.objectTypes?.map((type: string) => scope.objectType(type)) });
   };
 
-  // Automatically sync relationships based on mappings
-  const hooks: Record<string, Function[]> = {};
+  // Read one page of relationships; pass the returned cursor back to continue
+  const readRelationshipsPage = async (
+    filter: RelationshipFilter,
+    page: { limit: number; cursor?: string; consistency: ReturnType<typeof toConsistency> }
+  ) => {
+    const responses = await promiseClient.readRelationships(v1.ReadRelationshipsRequest.create({
+      consistency: page.consistency,
+      relationshipFilter: toRelationshipFilter(filter),
+      optionalLimit: page.limit,
+      optionalCursor: page.cursor ? v1.Cursor.create({ token: page.cursor }) : undefined,
+    }));
+    const last = responses[responses.length - 1];
 
-  // Auto-sync for organization plugin if enabled
-  if (options.syncOrganizations) {
-    hooks["organization.addMember"] = [
-      async (event: any) => {
-        try {
-          await writeRelationship(
-            { type: "organization", id: event.organizationId },
-            "member",
-            { type: "user", id: event.userId }
-          );
-          console.log(`[spicedb] Synced: user:${event.userId} → organization:${event.organizationId}#member`);
-        } catch (err) {
-          console.error("[spicedb] Failed to sync organization member:", err);
-        }
-      }
-    ];
+    return {
+      relationships: responses.flatMap((response) => {
+        const record = response.relationship && toRecord(response.relationship);
+        return record ? [record] : [];
+      }),
+      // A short page is the last one
+      cursor: responses.length === page.limit ? last?.afterResultCursor?.token : undefined,
+      zedToken: last?.readAt?.token,
+    };
+  };
 
-    hooks["organization.removeMember"] = [
-      async (event: any) => {
-        try {
-          await deleteRelationship(
-            { type: "organization", id: event.organizationId },
-            "member",
-            { type: "user", id: event.userId }
-          );
-          console.log(`[spicedb] Removed: user:${event.userId} from organization:${event.organizationId}#member`);
-        } catch (err) {
-          console.error("[spicedb] Failed to remove organization member:", err);
-        }
-      }
-    ];
+  // Stream every matching relationship, reading all pages at the first page's snapshot
+  const readRelationships = async function* (filter: RelationshipFilter, pageSize = 500) {
+    let consistency = toConsistency({ mode: "fullyConsistent" });
+    let cursor: string | undefined;
+
+    do {
+      const page = await readRelationshipsPage(filter, { limit: pageSize, cursor, consistency });
+      yield* page.relationships;
+      cursor = page.cursor;
+      if (page.zedToken) consistency = toConsistency({ mode: "atExactSnapshot", token: page.zedToken });
+    } while (cursor);
+  };
+
+  // Lookup results carry their permissionship, so caveated results are not mistaken for grants.
+  // Objects of other tenants give undefined.
+  const toLookupResult = (
+    objectType: string,
+    objectId: string,
+    permissionship: v1.LookupPermissionship,
+    caveatInfo?: v1.PartialCaveatInfo
+  ) => {
+    const object = tenancy.current().fromObject(objectType, objectId);
+    if (!object) return undefined;
+    const conditional = permissionship === v1.LookupPermissionship.CONDITIONAL_PERMISSION;
+    return {
+      id: object.id,
+      conditional,
+      ...(conditional ? { missingContext: caveatInfo?.missingRequiredContext ?? [] } : {}),
+    };
+  };
+
+  type ResourceLookup = Omit<LookupResourcesStreamParams, "consistency" | "pageSize"> & {
+    consistency: ReturnType<typeof toConsistency>;
+  };
+
+  // Read one page of LookupResources; pass the returned cursor back to continue
+  const lookupResourcesPage = async (lookup: ResourceLookup, page: { limit: number; cursor?: string }) => {
+    const responses = await promiseClient.lookupResources(v1.LookupResourcesRequest.create({
+      resourceObjectType: tenancy.current().objectType(lookup.resourceType),
+      permission: lookup.permission,
+      subject: toSubjectReference(lookup.subject),
+      consistency: lookup.consistency,
+      context: lookup.context ? toStruct(lookup.context) : undefined,
+      optionalLimit: page.limit,
+      optionalCursor: page.cursor ? v1.Cursor.create({ token: page.cursor }) : undefined,
+    }));
+    const last = responses[responses.length - 1];
+    const resourceType = tenancy.current().objectType(lookup.resourceType);
+
+    return {
+      resources: responses.flatMap((response) =>
+        toLookupResult(resourceType, response.resourceObjectId, response.permissionship, response.partialCaveatInfo) ?? []
+      ),
+      // A short page is the last one
+      cursor: responses.length === page.limit ? last?.afterResultCursor?.token : undefined,
+      zedToken: last?.lookedUpAt?.token,
+    };
+  };
+
+  // Stream every resource, reading all pages at the first page's snapshot
+  const streamResources = async function* (lookup: ResourceLookup, pageSize = 1000) {
+    let consistency = lookup.consistency;
+    let cursor: string | undefined;
+
+    do {
+      const page = await lookupResourcesPage({ ...lookup, consistency }, { limit: pageSize, cursor });
+      yield* page.resources;
+      cursor = page.cursor;
+      if (page.zedToken) consistency = toConsistency({ mode: "atExactSnapshot", token: page.zedToken });
+    } while (cursor);
+  };
+
+  // Filtered delete; a dry run only counts the matches and evaluates the preconditions
+  const bulkDeleteRelationships = async (params: DeleteRelationshipsParams): Promise<DeleteRelationshipsResult> => {
+    if (!params.dryRun) {
+      return { dryRun: false, ...await deleteRelationshipsMatching(params.filter, params) };
+    }
+
+    let matched = 0;
+    for await (const _relationship of readRelationships(params.filter)) matched++;
+
+    let preconditionsMet = true;
+    for (const precondition of params.preconditions ?? []) {
+      const page = await readRelationshipsPage(precondition.filter, {
+        limit: 1,
+        consistency: toConsistency({ mode: "fullyConsistent" }),
+      });
+      const exists = page.relationships.length > 0;
+      if (exists !== (precondition.operation === "mustMatch")) preconditionsMet = false;
+    }
+
+    return {
+      dryRun: true,
+      matched,
+      deleted: 0,
+      complete: !params.limit || matched <= params.limit,
+      preconditionsMet,
+    };
+  };
+
+  // Outbox items are applied in the tenant that enqueued them
+  const outbox = options.outbox?.enabled
+    ? createOutbox(options.outbox, {
+        writeRelationships: (updates, tenantId) => tenancy.run(tenantId, () => writeRelationships(updates)),
+        relationshipExists: (update, tenantId) => tenancy.run(tenantId, async () => {
+          const page = await readRelationshipsPage({
+            resourceType: update.resource.type,
+            resourceId: update.resource.id,
+            relation: update.relation,
+            subject: { ...update.subject, relation: update.subject.relation ?? "" },
+          }, { limit: 1, consistency: toConsistency({ mode: "fullyConsistent" }) });
+          return page.relationships.length > 0;
+        }),
+      })
+    : undefined;
+  // Set once Better Auth initialises the plugin
+  let outboxAdapter: OutboxAdapter | undefined;
+
+  // Send updates produced by hooks to SpiceDB, through the outbox when enabled
+  const syncUpdates = async (eventName: string, updates: RelationshipUpdate[], context?: HookContext) => {
+    const adapter = context?.adapter ?? outboxAdapter;
+    if (outbox && adapter) {
+      await outbox.enqueue(adapter, eventName, updates, context?.idempotencyKey, tenancy.current().tenantId);
+      return undefined;
+    }
+
+    const zedToken = await writeRelationships(updates);
+    await trackToken(zedToken, context?.session, updates.flatMap((u) => [u.resource, u.subject]));
+    return zedToken;
+  };
+
+  const organizationSync = options.syncOrganizations
+    ? createOrganizationSync(options.syncOrganizations === true ? {} : options.syncOrganizations, {
+        syncUpdates,
+        deleteRelationships: async (filter) => (await deleteRelationshipsMatching(filter)).deleted,
+        readRelationships,
+        // The session was loaded by the organization endpoint
+        runInTenant: (ctx, fn) => tenancy.runFor({ ...tenantRequest(ctx), session: async () => ctx.context.session }, fn),
+      })
+    : undefined;
+
+  const cleanup = options.cleanup
+    ? createCleanup(options.cleanup, {
+        readRelationships,
+        deleteRelationships: async (filter, limit) => (await deleteRelationshipsMatching(filter, { limit })).zedToken,
+      })
+    : undefined;
+
+  const allMappings = [
+    ...(organizationSync?.mappings ?? []),
+    ...(options.relationships ?? []),
+  ];
+
+  const reconciler = createReconciler(allMappings, readRelationships, writeRelationships);
+
+  const schemaOptions = typeof options.schema === "string" ? { source: options.schema } : options.schema;
+  const typePrefixed = options.tenant?.strategy === "typePrefix";
+  const schemaSync = schemaOptions
+    ? createSchemaSync(schemaOptions, {
+        readSchema: async () => {
+          try {
+            const response = await promiseClient.readSchema(v1.ReadSchemaRequest.create({}));
+            return response.schemaText;
+          } catch (err: any) {
+            if (err.code === GRPC_NOT_FOUND) return "";
+            throw err;
+          }
+        },
+        writeSchema: async (schema) => {
+          const response = await promiseClient.writeSchema(v1.WriteSchemaRequest.create({ schema }));
+          // Permissions may be computed differently now
+          await checkCache?.invalidate(["*"]);
+          return response.writtenAt?.token;
+        },
+      }, typePrefixed)
+    : undefined;
+
+  // Catch misconfigured mappings before any event fires
+  if (schemaSync && schemaOptions?.validateMappings !== false) {
+    schemaSync.assertMappings(allMappings);
   }
 
-  // Process custom relationship mappings
+  const bulkCheckChunkSize = options.bulkCheckChunkSize ?? 100;
+
+  // Run checks through CheckBulkPermissions in chunks; failures are reported per item
+  const checkBulkPermissions = async (
+    items: Array<{
+      resource: SubjectReference;
+      permission: string;
+      subject: SubjectReference;
+      context?: Record<string, any>;
+    }>,
+    consistency: ReturnType<typeof toConsistency>
+  ): Promise<Array<{ allowed: boolean; missingContext?: string[]; error?: string }>> => {
+    const chunks: Array<typeof items> = [];
+    for (let i = 0; i < items.length; i += bulkCheckChunkSize) {
+      chunks.push(items.slice(i, i + bulkCheckChunkSize));
+    }
+
+    const chunkResults = await Promise.all(chunks.map(async (chunk) => {
+      const request = v1.CheckBulkPermissionsRequest.create({
+        consistency,
+        items: chunk.map((item) => v1.CheckBulkPermissionsRequestItem.create({
+          resource: toObjectReference(item.resource),
+          permission: item.permission,
+          subject: toSubjectReference(item.subject),
+          context: item.context ? toStruct(item.context) : undefined,
+        })),
+      });
+
+      try {
+        const response = await promiseClient.checkBulkPermissions(request);
+        // Pairs come back in request order
+        return response.pairs.map((pair) => {
+          if (pair.response.oneofKind === "item") {
+            const { permissionship, partialCaveatInfo } = pair.response.item;
+            // Like a single check, a caveat missing context is reported rather than read as a denial
+            if (permissionship === v1.CheckPermissionResponse_Permissionship.CONDITIONAL_PERMISSION) {
+              return { allowed: false, missingContext: partialCaveatInfo?.missingRequiredContext ?? [] };
+            }
+            return { allowed: permissionship === v1.CheckPermissionResponse_Permissionship.HAS_PERMISSION };
+          }
+          const message = pair.response.oneofKind === "error" ? pair.response.error.message : "No result returned";
+          return { allowed: false, error: message };
+        });
+      } catch (err: any) {
+        console.error("[spicedb] Bulk check chunk failed:", err);
+        return chunk.map(() => ({ allowed: false, error: err.message as string }));
+      }
+    }));
+
+    return chunkResults.flat();
+  };
+
+  // Automatically sync relationships based on mappings
+  const hooks: Record<string, Function[]> = {};
+
+  // Process custom relationship mappings, batching all mappings of an event into one write
   if (options.relationships) {
+    const mappingsByEvent = new Map<string, NonNullable<typeof options.relationships>>();
     options.relationships.forEach((mapping) => {
-      if (!hooks[mapping.on]) hooks[mapping.on] = [];
-      
-      hooks[mapping.on].push(async (event: any) => {
+      mappingsByEvent.set(mapping.on, [...(mappingsByEvent.get(mapping.on) ?? []), mapping]);
+    });
+
+    mappingsByEvent.forEach((mappings, eventName) => {
+      if (!hooks[eventName]) hooks[eventName] = [];
+
+      hooks[eventName].push((event: any, context?: HookContext) => tenancy.run(context?.tenantId, async () => {
         try {
-          // Extract IDs using the mapping functions
-          const resourceId = mapping.resourceId(event);
-          const subjectId = mapping.subjectId(event);
+          // Fan-out and overlapping mappings can produce the same relationship more than once
+          const updates = dedupeUpdates(mappings.flatMap((mapping) => mappingUpdates(mapping, event)));
 
-          if (!resourceId || !subjectId) {
-            console.warn(`[spicedb] Skipping sync - missing IDs in event:`, event);
-            return;
+          // Replace mappings also delete the resource's subjects that are not being written
+          const written = new Set(updates.map(relationshipKey));
+          for (const filter of mappings.flatMap((mapping) => replaceFilters(mapping, event))) {
+            for await (const existing of readRelationships(filter)) {
+              // Two replace mappings on one relation read the same relationships
+              if (written.has(relationshipKey(existing))) continue;
+              written.add(relationshipKey(existing));
+              updates.push({
+                operation: "delete",
+                resource: existing.resource,
+                relation: existing.relation,
+                subject: existing.subject,
+              });
+            }
           }
 
-          await writeRelationship(
-            { type: mapping.resourceType, id: resourceId },
-            mapping.relation,
-            { type: mapping.subjectType, id: subjectId }
-          );
+          if (updates.length === 0) return;
 
-          console.log(`[spicedb] Synced: ${mapping.subjectType}:${subjectId} → ${mapping.resourceType}:${resourceId}#${mapping.relation}`);
+          const zedToken = await syncUpdates(eventName, updates, context);
+
+          for (const update of updates) {
+            console.log(`[spicedb] ${update.operation === "delete" ? "Removed" : "Synced"}: ${formatSubject(update.subject)} → ${update.resource.type}:${update.resource.id}#${update.relation}`);
+          }
+          return zedToken;
         } catch (err) {
-          console.error(`[spicedb] Failed to sync relationship for ${mapping.on}:`, err);
+          console.error(`[spicedb] Failed to sync relationships for ${eventName}:`, err);
+          if (outbox) throw err;
         }
-      });
+      }));
     });
   }
 
-  return {
+  // Remove relationships of application resources when their deletion event is emitted
+  options.cleanup?.resources?.forEach((mapping) => {
+    if (!hooks[mapping.on]) hooks[mapping.on] = [];
+
+    hooks[mapping.on].push((event: any, context?: HookContext) => tenancy.run(context?.tenantId, async () => {
+      try {
+        const report = await cleanup!.cleanupResource(mapping, event);
+        if (!report) return;
+        await trackToken(report.zedToken, context?.session, [report.object]);
+        return report.zedToken;
+      } catch (err) {
+        console.error(`[spicedb] Failed to clean up relationships for ${mapping.on}:`, err);
+      }
+    }));
+  });
+
+  const plugin = {
     id: "spicedb",
-    hooks,
+    // Event hooks for createEventEmitter, plus Better Auth endpoint hooks
+    hooks: Object.assign(hooks, { after: organizationSync?.hooks ?? [] }),
+    $ERROR_CODES: SPICEDB_ERROR_CODES,
+    schema: options.outbox?.enabled ? outboxSchema : undefined,
+
+    init: async (ctx) => {
+      if (cacheOptions?.store === "secondaryStorage") {
+        if (!ctx.secondaryStorage) {
+          console.warn("[spicedb] cache.store is \"secondaryStorage\" but none is configured, caching checks in memory");
+        }
+        cacheStore = ctx.secondaryStorage ?? createMemoryCheckStore(cacheOptions.maxEntries);
+      }
+
+      if (schemaSync && !typePrefixed) {
+        const onDrift = schemaOptions?.onDrift ?? "warn";
+        await schemaSync.sync(onDrift).catch((err) => {
+          // Only a warning is wanted, so an unreachable SpiceDB must not stop startup either
+          if (onDrift !== "warn") throw err;
+          console.error("[spicedb] Failed to compare schema:", err);
+        });
+      }
+
+      outboxAdapter = ctx.adapter;
+      if (outbox && options.outbox?.autoStart !== false) {
+        outbox.start(ctx.adapter);
+      }
+      if (!cleanup) return {};
+
+      // Deletions made outside an endpoint resolve the tenant from no request at all
+      const dbHookRequest = (context?: Parameters<typeof getSessionFromCtx>[0]): TenantRequest =>
+        context ? { ...tenantRequest(context), body: undefined, query: undefined } : { session: async () => null };
+
+      // Deleted users and sessions must not leave access behind for a recycled ID
+      return {
+        options: {
+          databaseHooks: {
+            user: {
+              delete: {
+                after: async (user, context) => {
+                  await tenancy.runFor(dbHookRequest(context), () => cleanup.cleanupUser(user.id)).catch((err) =>
+                    console.error(`[spicedb] Failed to clean up relationships of user:${user.id}:`, err)
+                  );
+                },
+              },
+            },
+            session: {
+              delete: {
+                after: async (session, context) => {
+                  await tenancy.runFor(dbHookRequest(context), () => cleanup.cleanupSession(session.id)).catch((err) =>
+                    console.error(`[spicedb] Failed to clean up relationships of session:${session.id}:`, err)
+                  );
+                },
+              },
+            },
+          },
+        },
+      };
+    },
 
     endpoints: {
       // Check single permission
@@ -155,43 +827,60 @@ export const spicedb = (options: SpiceDBPluginOptions) => {
             subjectId: z.string().optional(),
             subjectType: z.string().default("user"),
             context: z.record(z.any()).optional(),
+            consistency: consistencySchema.optional(),
+            explain: z.boolean().optional(),
           }),
         },
-        async (ctx) => {
+        scoped(async (ctx) => {
           const session = await getSessionFromCtx(ctx);
 
-          const { resourceType, resourceId, permission, subjectId, subjectType, context } = ctx.body;
+          const { resourceType, resourceId, permission, subjectId, subjectType, context, consistency, explain } = ctx.body;
 
-          const actualSubjectId = subjectId || session?.user?.id;
-          if (!actualSubjectId) {
-            return ctx.json({ allowed: false, reason: "unauthenticated" }, { status: 401 });
+          const trusted = isTrustedCall(ctx);
+          const resolved = await resolveSubject(session, subjectType, subjectId, trusted);
+          if (!("subject" in resolved)) {
+            return ctx.json({ allowed: false, ...resolved.body }, { status: resolved.status });
+          }
+          const { subject } = resolved;
+
+          // Debug traces reveal relationships beyond the checked one
+          if (explain && !trusted && !isAdmin(session)) {
+            const denied = forbidden("ADMIN_REQUIRED");
+            return ctx.json({ allowed: false, ...denied.body }, { status: denied.status });
           }
 
           try {
+            // Explicit consistency asks for SpiceDB's own answer, and traces are never cached
+            const cached = checkCache && !consistency && !explain
+              ? await checkCache.lookup({ resource: qualify({ type: resourceType, id: resourceId }), permission, subject: qualify(subject), context })
+              : undefined;
+            if (cached?.allowed !== undefined) return ctx.json({ allowed: cached.allowed });
+
             const request = v1.CheckPermissionRequest.create({
-              resource: v1.ObjectReference.create({ 
-                objectType: resourceType, 
-                objectId: namespace(resourceId) 
-              }),
+              consistency: await resolveConsistency(consistency, session, [{ type: resourceType, id: resourceId }]),
+              resource: toObjectReference({ type: resourceType, id: resourceId }),
               permission,
-              subject: v1.SubjectReference.create({
-                object: v1.ObjectReference.create({ 
-                  objectType: subjectType, 
-                  objectId: namespace(actualSubjectId) 
-                })
-              }),
-              context: context ? (Struct.fromJavaScript(context) as any) : undefined,
+              subject: toSubjectReference(subject),
+              context: context ? toStruct(context) : undefined,
+              withTracing: !!explain,
             });
 
             const response = await promiseClient.checkPermission(request);
             const allowed = response.permissionship === v1.CheckPermissionResponse_Permissionship.HAS_PERMISSION;
+            const explanation = explain ? toExplanation(response.debugTrace) : undefined;
+
+            // A caveat could not be evaluated without more context
+            if (response.permissionship === v1.CheckPermissionResponse_Permissionship.CONDITIONAL_PERMISSION) {
+              return ctx.json({ allowed, missingContext: response.partialCaveatInfo?.missingRequiredContext ?? [], explanation });
+            }
 
-            return ctx.json({ allowed });
+            await cached?.save(allowed);
+            return ctx.json({ allowed, explanation });
           } catch (err: any) {
             console.error("[spicedb] Check failed:", err);
             return ctx.json({ allowed: false, error: err.message }, { status: 500 });
           }
-        }
+        })
       ),
 
       // Bulk check permissions
@@ -204,58 +893,83 @@ export const spicedb = (options: SpiceDBPluginOptions) => {
               resourceType: z.string(),
               resourceId: z.string(),
               permission: z.string(),
+              subjectId: z.string().optional(),
+              subjectType: z.string().optional(),
+              context: z.record(z.any()).optional(),
             })),
             subjectId: z.string().optional(),
             subjectType: z.string().default("user"),
             context: z.record(z.any()).optional(),
+            consistency: consistencySchema.optional(),
           }),
         },
-        async (ctx) => {
+        scoped(async (ctx) => {
           const session = await getSessionFromCtx(ctx);
 
-          const { checks, subjectId, subjectType, context } = ctx.body;
+          const { checks, subjectId, subjectType, context, consistency } = ctx.body;
+
+          // Resolve every distinct subject once; one forbidden subject rejects the whole request
+          const subjects = new Map<string, SubjectReference>();
+          for (const check of checks) {
+            const type = check.subjectType ?? subjectType;
+            const id = check.subjectId ?? subjectId;
+            const key = `${type}:${id ?? ""}`;
+            if (subjects.has(key)) continue;
 
-          const actualSubjectId = subjectId || session?.user?.id;
-          if (!actualSubjectId) {
-            return ctx.json({ results: [], reason: "unauthenticated" }, { status: 401 });
+            const resolved = await resolveSubject(session, type, id, isTrustedCall(ctx));
+            if (!("subject" in resolved)) {
+              return ctx.json({ results: [], ...resolved.body }, { status: resolved.status });
+            }
+            subjects.set(key, resolved.subject);
           }
 
           try {
-            const results = await Promise.all(
-              checks.map(async (check) => {
-                const request = v1.CheckPermissionRequest.create({
-                  resource: v1.ObjectReference.create({ 
-                    objectType: check.resourceType, 
-                    objectId: namespace(check.resourceId) 
-                  }),
-                  permission: check.permission,
-                  subject: v1.SubjectReference.create({
-                    object: v1.ObjectReference.create({ 
-                      objectType: subjectType, 
-                      objectId: namespace(actualSubjectId) 
-                    })
-                  }),
-                  context: context ? (Struct.fromJavaScript(context) as any) : undefined,
-                });
-
-                const response = await promiseClient.checkPermission(request);
-                const allowed = response.permissionship === v1.CheckPermissionResponse_Permissionship.HAS_PERMISSION;
-
-                return {
-                  resourceType: check.resourceType,
-                  resourceId: check.resourceId,
-                  permission: check.permission,
-                  allowed,
-                };
-              })
+            const readConsistency = await resolveConsistency(
+              consistency,
+              session,
+              checks.map((check) => ({ type: check.resourceType, id: check.resourceId }))
             );
 
+            const items = checks.map((check) => ({
+              resource: { type: check.resourceType, id: check.resourceId },
+              permission: check.permission,
+              subject: subjects.get(`${check.subjectType ?? subjectType}:${check.subjectId ?? subjectId ?? ""}`)!,
+              context: context || check.context ? { ...context, ...check.context } : undefined,
+            }));
+
+            // Only the checks the cache cannot answer go to SpiceDB
+            const cached = checkCache && !consistency
+              ? await Promise.all(items.map((item) => checkCache.lookup({ ...item, resource: qualify(item.resource), subject: qualify(item.subject) })))
+              : undefined;
+            const missed = cached ? items.filter((_, i) => cached[i].allowed === undefined) : items;
+            const fetched = missed.length ? await checkBulkPermissions(missed, readConsistency) : [];
+
+            let next = 0;
+            const checked = items.map((_, i) => {
+              const hit = cached?.[i].allowed;
+              return hit !== undefined ? { allowed: hit } : fetched[next++];
+            });
+            // Failed and conditional items are asked again next time
+            await Promise.all(checked.map((result, i) =>
+              cached?.[i].allowed === undefined && !result.error && !("missingContext" in result) ? cached?.[i].save(result.allowed) : undefined
+            ));
+
+            const results = checks.map((check, i) => ({
+              resourceType: check.resourceType,
+              resourceId: check.resourceId,
+              permission: check.permission,
+              ...(check.subjectId || check.subjectType
+                ? { subjectType: items[i].subject.type, subjectId: items[i].subject.id }
+                : {}),
+              ...checked[i],
+            }));
+
             return ctx.json({ results });
           } catch (err: any) {
             console.error("[spicedb] Bulk check failed:", err);
             return ctx.json({ results: [], error: err.message }, { status: 500 });
           }
-        }
+        })
       ),
 
       // Lookup resources user has permission on
@@ -269,67 +983,212 @@ export const spicedb = (options: SpiceDBPluginOptions) => {
             subjectId: z.string().optional(),
             subjectType: z.string().default("user"),
             context: z.record(z.any()).optional(),
+            consistency: consistencySchema.optional(),
+            limit: z.number().int().min(1).max(1000).optional(),
+            cursor: z.string().optional(),
           }),
         },
-        async (ctx) => {
+        scoped(async (ctx) => {
           const session = await getSessionFromCtx(ctx);
 
-          const { resourceType, permission, subjectId, subjectType, context } = ctx.body;
+          const { resourceType, permission, subjectId, subjectType, context, consistency, limit, cursor } = ctx.body;
 
-          const actualSubjectId = subjectId || session?.user?.id;
-          if (!actualSubjectId) {
-            return ctx.json({ resourceIds: [], reason: "unauthenticated" }, { status: 401 });
+          const resolved = await resolveSubject(session, subjectType, subjectId, isTrustedCall(ctx));
+          if (!("subject" in resolved)) {
+            return ctx.json({ resourceIds: [], resources: [], ...resolved.body }, { status: resolved.status });
           }
+          const { subject } = resolved;
 
           try {
-            const request = v1.LookupResourcesRequest.create({
-              resourceObjectType: resourceType,
+            const lookup = {
+              resourceType,
               permission,
-              subject: v1.SubjectReference.create({
-                object: v1.ObjectReference.create({
-                  objectType: subjectType,
-                  objectId: namespace(actualSubjectId)
-                })
-              }),
-              consistency: v1.Consistency.create({
-                requirement: {
-                  oneofKind: 'fullyConsistent',
-                  fullyConsistent: true
-                }
-              }),
-              context: context ? (Struct.fromJavaScript(context) as any) : undefined,
+              subject,
+              context,
+              consistency: await resolveConsistency(consistency, session, [subject]),
+            };
+
+            let resources: LookupResource[] = [];
+            let nextCursor: string | undefined;
+            // A cursor continues paging, so it must not restart the full result set
+            const pageSize = limit ?? (cursor ? DEFAULT_LOOKUP_PAGE_SIZE : undefined);
+            if (pageSize) {
+              const page = await lookupResourcesPage(lookup, { limit: pageSize, cursor });
+              resources = page.resources;
+              nextCursor = page.cursor;
+            } else {
+              // Without a limit, keep the old behaviour of returning everything
+              for await (const resource of streamResources(lookup)) resources.push(resource);
+            }
+
+            return ctx.json({
+              resourceIds: resources.filter((resource) => !resource.conditional).map((resource) => resource.id),
+              resources,
+              cursor: nextCursor,
             });
+          } catch (err: any) {
+            console.error("[spicedb] Lookup failed:", err);
+            return ctx.json({ resourceIds: [], resources: [], error: err.message }, { status: 500 });
+          }
+        })
+      ),
 
-            const resourceIds: string[] = [];
-            
-            // Create a promise to handle the stream
-            await new Promise<void>((resolve, reject) => {
-              const stream = client.lookupResources(request);
-              
-              stream.on('data', (response: any) => {
-                const rawId = response.resourceObjectId;
-                const id = options.namespace && rawId.startsWith(options.namespace)
-                  ? rawId.slice(options.namespace.length)
-                  : rawId;
-                resourceIds.push(id);
-              });
-              
-              stream.on('error', (err: any) => {
-                console.error('[spicedb] Stream error:', err);
-                reject(err);
-              });
-              
-              stream.on('end', () => {
-                resolve();
-              });
+      // Lookup subjects that have a permission on a resource
+      spicedbLookupSubjects: createAuthEndpoint(
+        "/spicedb/lookup-subjects",
+        {
+          method: "POST",
+          body: z.object({
+            resourceType: z.string(),
+            resourceId: z.string(),
+            permission: z.string(),
+            subjectType: z.string().default("user"),
+            subjectRelation: z.string().optional(),
+            context: z.record(z.any()).optional(),
+            consistency: consistencySchema.optional(),
+          }),
+        },
+        scoped(async (ctx) => {
+          const { resourceType, resourceId, permission, subjectType, subjectRelation, context, consistency } = ctx.body;
+          const resource = toObjectReference({ type: resourceType, id: resourceId });
+
+          let session: SpiceDBSession | null = null;
+          if (!isTrustedCall(ctx)) {
+            session = await getSessionFromCtx(ctx);
+            if (!session?.user?.id) {
+              return ctx.json({ subjects: [], ...unauthenticated().body }, { status: 401 });
+            }
+          }
+
+          try {
+            const readConsistency = await resolveConsistency(consistency, session, [{ type: resourceType, id: resourceId }]);
+
+            // Listing who has access is itself gated by a permission on the resource
+            if (session && !isAdmin(session)) {
+              const required = typeof options.lookupSubjectsPermission === "string"
+                ? options.lookupSubjectsPermission
+                : options.lookupSubjectsPermission?.[resourceType] ?? permission;
+
+              const check = await promiseClient.checkPermission(v1.CheckPermissionRequest.create({
+                consistency: readConsistency,
+                resource,
+                permission: required,
+                subject: toSubjectReference({ type: "user", id: session.user.id }),
+              }));
+              if (check.permissionship !== v1.CheckPermissionResponse_Permissionship.HAS_PERMISSION) {
+                const denied = forbidden("LOOKUP_SUBJECTS_FORBIDDEN");
+                return ctx.json({ subjects: [], ...denied.body }, { status: denied.status });
+              }
+            }
+
+            const subjectObjectType = tenancy.current().objectType(subjectType);
+            const responses = await promiseClient.lookupSubjects(v1.LookupSubjectsRequest.create({
+              consistency: readConsistency,
+              resource,
+              permission,
+              subjectObjectType,
+              optionalSubjectRelation: subjectRelation ?? "",
+              context: context ? toStruct(context) : undefined,
+              wildcardOption: v1.LookupSubjectsRequest_WildcardOption.INCLUDE_WILDCARDS,
+            }));
+
+            const toSubject = (resolved: v1.ResolvedSubject) =>
+              toLookupResult(subjectObjectType, resolved.subjectObjectId, resolved.permissionship, resolved.partialCaveatInfo);
+
+            // Subjects of other tenants, and wildcards shared with them, are left out
+            const subjects: LookupSubject[] = [];
+            let wildcard: LookupSubjectsResult["wildcard"];
+            for (const response of responses) {
+              const subject = response.subject && toSubject(response.subject);
+              if (!subject) continue;
+              if (response.subject!.subjectObjectId === "*") {
+                const excludedIds = response.excludedSubjects.flatMap((s) => toSubject(s)?.id ?? []);
+                wildcard = { ...subject, excludedIds };
+              } else {
+                subjects.push(subject);
+              }
+            }
+
+            return ctx.json({ subjects, ...(wildcard ? { wildcard } : {}) });
+          } catch (err: any) {
+            console.error("[spicedb] Lookup subjects failed:", err);
+            return ctx.json({ subjects: [], error: err.message }, { status: 500 });
+          }
+        })
+      ),
+
+      // Expand the tree of subjects behind a permission (admin only)
+      spicedbExpand: createAuthEndpoint(
+        "/spicedb/expand",
+        {
+          method: "POST",
+          requireAdmin: true,
+          body: z.object({
+            resourceType: z.string(),
+            resourceId: z.string(),
+            permission: z.string(),
+            consistency: consistencySchema.optional(),
+          }),
+        },
+        scoped(async (ctx) => {
+          const authorized = await authorizeAdmin(ctx);
+          if (!("session" in authorized)) {
+            return ctx.json({ ...authorized.body }, { status: authorized.status });
+          }
+
+          const { resourceType, resourceId, permission, consistency } = ctx.body;
+
+          try {
+            const response = await promiseClient.expandPermissionTree(v1.ExpandPermissionTreeRequest.create({
+              consistency: await resolveConsistency(consistency, authorized.session, [{ type: resourceType, id: resourceId }]),
+              resource: toObjectReference({ type: resourceType, id: resourceId }),
+              permission,
+            }));
+
+            return ctx.json({
+              tree: response.treeRoot ? toPermissionTree(response.treeRoot) : undefined,
+              zedToken: response.expandedAt?.token,
             });
+          } catch (err: any) {
+            console.error("[spicedb] Expand failed:", err);
+            return ctx.json({ error: err.message }, { status: 500 });
+          }
+        })
+      ),
+
+      // Page through stored relationships (admin only)
+      spicedbReadRelationships: createAuthEndpoint(
+        "/spicedb/relationships",
+        {
+          method: "POST",
+          requireAdmin: true,
+          body: z.object({
+            filter: relationshipFilterSchema,
+            limit: z.number().int().min(1).max(1000).default(100),
+            cursor: z.string().optional(),
+            consistency: consistencySchema.optional(),
+          }),
+        },
+        scoped(async (ctx) => {
+          const authorized = await authorizeAdmin(ctx);
+          if (!("session" in authorized)) {
+            return ctx.json({ relationships: [], ...authorized.body }, { status: authorized.status });
+          }
+
+          const { filter, limit, cursor, consistency } = ctx.body;
 
-            return ctx.json({ resourceIds });
+          try {
+            const page = await readRelationshipsPage(filter, {
+              limit,
+              cursor,
+              consistency: await resolveConsistency(consistency, authorized.session, []),
+            });
+            return ctx.json(page);
           } catch (err: any) {
-            console.error("[spicedb] Lookup failed:", err);
-            return ctx.json({ resourceIds: [], error: err.message }, { status: 500 });
+            console.error("[spicedb] Read relationships failed:", err);
+            return ctx.json({ relationships: [], error: err.message }, { status: 500 });
           }
-        }
+        })
       ),
 
       // Write a relationship (for manual control if needed)
@@ -347,22 +1206,36 @@ export const spicedb = (options: SpiceDBPluginOptions) => {
             subject: z.object({
               type: z.string(),
               id: z.string(),
+              relation: z.string().optional(),
             }),
+            caveat: z.object({
+              name: z.string(),
+              context: z.record(z.any()).optional(),
+            }).optional(),
+            expiresAt: z.coerce.date().optional(),
           }),
         },
-        async (ctx) => {
+        scoped(async (ctx) => {
+          const authorized = await authorizeAdmin(ctx);
+          if (!("session" in authorized)) {
+            return ctx.json({ success: false, ...authorized.body }, { status: authorized.status });
+          }
+          const { session } = authorized;
+
           try {
-            await writeRelationship(
+            const zedToken = await writeRelationship(
               ctx.body.resource,
               ctx.body.relation,
-              ctx.body.subject
+              ctx.body.subject,
+              { caveat: ctx.body.caveat, expiresAt: ctx.body.expiresAt }
             );
-            return ctx.json({ success: true });
+            await trackToken(zedToken, session, [ctx.body.resource, ctx.body.subject]);
+            return ctx.json({ success: true, zedToken });
           } catch (err: any) {
             console.error("[spicedb] Write relationship failed:", err);
             return ctx.json({ success: false, error: err.message }, { status: 500 });
           }
-        }
+        })
       ),
 
       // Delete a relationship
@@ -380,23 +1253,319 @@ export const spicedb = (options: SpiceDBPluginOptions) => {
             subject: z.object({
               type: z.string(),
               id: z.string(),
+              relation: z.string().optional(),
             }),
           }),
         },
-        async (ctx) => {
+        scoped(async (ctx) => {
+          const authorized = await authorizeAdmin(ctx);
+          if (!("session" in authorized)) {
+            return ctx.json({ success: false, ...authorized.body }, { status: authorized.status });
+          }
+          const { session } = authorized;
+
           try {
-            await deleteRelationship(
+            const zedToken = await deleteRelationship(
               ctx.body.resource,
               ctx.body.relation,
               ctx.body.subject
             );
-            return ctx.json({ success: true });
+            await trackToken(zedToken, session, [ctx.body.resource, ctx.body.subject]);
+            return ctx.json({ success: true, zedToken });
           } catch (err: any) {
             console.error("[spicedb] Delete relationship failed:", err);
             return ctx.json({ success: false, error: err.message }, { status: 500 });
           }
-        }
+        })
+      ),
+
+      // Delete every relationship matching a filter (admin only)
+      spicedbDeleteRelationships: createAuthEndpoint(
+        "/spicedb/delete-relationships",
+        {
+          method: "POST",
+          requireAdmin: true,
+          body: z.object({
+            filter: relationshipFilterSchema,
+            preconditions: z.array(preconditionSchema).optional(),
+            limit: z.number().int().min(1).optional(),
+            allowPartialDeletions: z.boolean().optional(),
+            dryRun: z.boolean().optional(),
+          }),
+        },
+        scoped(async (ctx) => {
+          const authorized = await authorizeAdmin(ctx);
+          if (!("session" in authorized)) {
+            return ctx.json({ dryRun: !!ctx.body.dryRun, deleted: 0, complete: false, ...authorized.body }, { status: authorized.status });
+          }
+
+          const { filter } = ctx.body;
+
+          try {
+            const result = await bulkDeleteRelationships(ctx.body);
+            await trackToken(result.zedToken, authorized.session, filter.resourceId ? [{ type: filter.resourceType, id: filter.resourceId }] : []);
+            return ctx.json(result);
+          } catch (err: any) {
+            if (err.code === GRPC_FAILED_PRECONDITION) {
+              return ctx.json({
+                dryRun: false,
+                deleted: 0,
+                complete: false,
+                code: "PRECONDITION_FAILED",
+                error: SPICEDB_ERROR_CODES.PRECONDITION_FAILED,
+              }, { status: 409 });
+            }
+            console.error("[spicedb] Delete relationships failed:", err);
+            return ctx.json({ dryRun: false, deleted: 0, complete: false, error: err.message }, { status: 500 });
+          }
+        })
+      ),
+
+      // Write several relationships atomically, optionally guarded by preconditions
+      spicedbWriteRelationships: createAuthEndpoint(
+        "/spicedb/write-relationships",
+        {
+          method: "POST",
+          requireAdmin: true,
+          body: z.object({
+            updates: z.array(relationshipUpdateSchema).min(1),
+            preconditions: z.array(preconditionSchema).optional(),
+          }),
+        },
+        scoped(async (ctx) => {
+          const authorized = await authorizeAdmin(ctx);
+          if (!("session" in authorized)) {
+            return ctx.json({ success: false, ...authorized.body }, { status: authorized.status });
+          }
+
+          const { updates, preconditions } = ctx.body;
+
+          try {
+            const zedToken = await writeRelationships(updates, preconditions);
+            await trackToken(zedToken, authorized.session, updates.flatMap((u) => [u.resource, u.subject]));
+            return ctx.json({ success: true, zedToken });
+          } catch (err: any) {
+            if (err.code === GRPC_FAILED_PRECONDITION) {
+              return ctx.json({
+                success: false,
+                code: "PRECONDITION_FAILED",
+                error: SPICEDB_ERROR_CODES.PRECONDITION_FAILED,
+              }, { status: 409 });
+            }
+            console.error("[spicedb] Write relationships failed:", err);
+            return ctx.json({ success: false, error: err.message }, { status: 500 });
+          }
+        })
+      ),
+
+      // Diff mapping sources against SpiceDB and optionally fix the drift
+      spicedbReconcile: createAuthEndpoint(
+        "/spicedb/reconcile",
+        {
+          method: "POST",
+          requireAdmin: true,
+          body: z.object({
+            dryRun: z.boolean().default(true),
+            resourceTypes: z.array(z.string()).optional(),
+            pageSize: z.number().int().min(1).max(1000).optional(),
+            maxReported: z.number().int().min(0).optional(),
+          }),
+        },
+        scoped(async (ctx) => {
+          const authorized = await authorizeAdmin(ctx);
+          if (!("session" in authorized)) {
+            return ctx.json({ ...authorized.body }, { status: authorized.status });
+          }
+
+          // Sources that read every tenant's rows would make other tenants' relationships look missing
+          const { tenantId } = tenancy.current();
+          const unaware = tenantId ? reconciler.tenantUnaware(ctx.body) : [];
+          if (unaware.length) {
+            return ctx.json({
+              code: "RECONCILE_NOT_TENANT_AWARE",
+              error: SPICEDB_ERROR_CODES.RECONCILE_NOT_TENANT_AWARE,
+              groups: unaware,
+            }, { status: 400 });
+          }
+
+          try {
+            return ctx.json(await reconciler.reconcile(ctx.context.adapter, ctx.body, tenantId));
+          } catch (err: any) {
+            console.error("[spicedb] Reconciliation failed:", err);
+            return ctx.json({ error: err.message }, { status: 500 });
+          }
+        })
+      ),
+
+      // Server-sent events for relationship changes where the signed-in user is the subject
+      spicedbWatch: createAuthEndpoint(
+        "/spicedb/watch",
+        {
+          method: "GET",
+          query: z.object({
+            objectTypes: z.string().optional(),
+            fromToken: z.string().optional(),
+          }),
+        },
+        scoped(async (ctx) => {
+          const session = await getSessionFromCtx(ctx);
+          if (!session?.user?.id) {
+            return ctx.json(unauthenticated().body, { status: 401 });
+          }
+
+          const userId = session.user.id;
+          const objectTypes = ctx.query.objectTypes?.split(",").map((type) => type.trim()).filter(Boolean);
+          const abort = new AbortController();
+          ctx.request?.signal.addEventListener("abort", () => abort.abort(), { once: true });
+
+          const encoder = new TextEncoder();
+          const body = new ReadableStream<Uint8Array>({
+            start: (controller) => {
+              const send = (message: string) => {
+                if (abort.signal.aborted) return;
+                controller.enqueue(encoder.encode(message));
+              };
+              // Proxies close connections that stay silent for too long
+              const heartbeat = setInterval(() => send(": ping\n\n"), 15_000);
+
+              (async () => {
+                try {
+                  for await (const change of watch({ objectTypes, fromToken: ctx.query.fromToken, signal: abort.signal })) {
+                    if (change.subject.type !== "user" || change.subject.id !== userId) continue;
+                    send(`id: ${change.zedToken}\nevent: change\ndata: ${JSON.stringify(change)}\n\n`);
+                  }
+                } catch (err: any) {
+                  console.error("[spicedb] Watch stream failed:", err);
+                  send(`event: error\ndata: ${JSON.stringify({ error: err.message })}\n\n`);
+                } finally {
+                  clearInterval(heartbeat);
+                  if (!abort.signal.aborted) controller.close();
+                }
+              })();
+            },
+            cancel: () => abort.abort(),
+          });
+
+          return new Response(body, {
+            headers: {
+              "content-type": "text/event-stream",
+              "cache-control": "no-cache",
+              connection: "keep-alive",
+            },
+          });
+        })
+      ),
+
+      // List outbox items, dead-lettered ones by default
+      spicedbListOutbox: createAuthEndpoint(
+        "/spicedb/outbox",
+        {
+          method: "GET",
+          requireAdmin: true,
+          query: z.object({
+            status: z.enum(["pending", "processing", "failed"]).default("failed"),
+            limit: z.coerce.number().int().min(1).max(500).default(100),
+          }),
+        },
+        scoped(async (ctx) => {
+          const authorized = await authorizeAdmin(ctx);
+          if (!("session" in authorized)) {
+            return ctx.json({ items: [], ...authorized.body }, { status: authorized.status });
+          }
+          if (!outbox) {
+            return ctx.json({ items: [], code: "OUTBOX_DISABLED", error: SPICEDB_ERROR_CODES.OUTBOX_DISABLED }, { status: 400 });
+          }
+
+          const items = await outbox.list(ctx.context.adapter, ctx.query.status, ctx.query.limit, tenancy.current().tenantId);
+          return ctx.json({ items });
+        })
+      ),
+
+      // Requeue dead-lettered outbox items
+      spicedbRetryOutbox: createAuthEndpoint(
+        "/spicedb/outbox/retry",
+        {
+          method: "POST",
+          requireAdmin: true,
+          body: z.object({
+            ids: z.array(z.string()).optional(),
+          }),
+        },
+        scoped(async (ctx) => {
+          const authorized = await authorizeAdmin(ctx);
+          if (!("session" in authorized)) {
+            return ctx.json({ requeued: 0, ...authorized.body }, { status: authorized.status });
+          }
+          if (!outbox) {
+            return ctx.json({ requeued: 0, code: "OUTBOX_DISABLED", error: SPICEDB_ERROR_CODES.OUTBOX_DISABLED }, { status: 400 });
+          }
+
+          const requeued = await outbox.retry(ctx.context.adapter, ctx.body.ids, tenancy.current().tenantId);
+          return ctx.json({ requeued });
+        })
+      ),
+
+      // Apply due outbox items now, e.g. from a cron job when autoStart is off
+      spicedbDrainOutbox: createAuthEndpoint(
+        "/spicedb/outbox/drain",
+        {
+          method: "POST",
+          requireAdmin: true,
+        },
+        scoped(async (ctx) => {
+          const authorized = await authorizeAdmin(ctx);
+          if (!("session" in authorized)) {
+            return ctx.json({ ...authorized.body }, { status: authorized.status });
+          }
+          if (!outbox) {
+            return ctx.json({ code: "OUTBOX_DISABLED", error: SPICEDB_ERROR_CODES.OUTBOX_DISABLED }, { status: 400 });
+          }
+
+          return ctx.json(await outbox.drain(ctx.context.adapter));
+        })
       ),
     },
   } satisfies BetterAuthPlugin;
+
+  // Server-side helpers for use outside of endpoints
+  const server = {
+    /**
+     * Stream every resource the subject has the permission on, fetching `pageSize` at a time
+     */
+    lookupResources: async function* (params: LookupResourcesStreamParams) {
+      const consistency = await resolveConsistency(params.consistency, null, [params.subject]);
+      yield* streamResources({ ...params, consistency }, params.pageSize);
+    },
+
+    /**
+     * Delete every relationship matching a filter, or count them with `dryRun`
+     */
+    deleteRelationships: bulkDeleteRelationships,
+
+    /**
+     * Stream relationship changes, resuming from `fromToken` and reconnecting when the stream drops
+     */
+    watch,
+
+    /**
+     * Compare SpiceDB's schema with the configured one, e.g. from a deploy script
+     * `onDrift` defaults to the plugin's `schema.onDrift`
+     */
+    syncSchema: (onDrift?: SchemaOptions["onDrift"]) => {
+      if (!schemaSync) throw new Error("[spicedb] No schema configured");
+      return schemaSync.sync(onDrift);
+    },
+
+    /**
+     * Hits and misses of the check cache since startup, all zero when it is disabled
+     */
+    cacheStats: (): CheckCacheStats => checkCache?.stats() ?? { hits: 0, misses: 0, hitRate: 0 },
+
+    /**
+     * Run server code, including `auth.api` calls and emitted events, inside a tenant
+     */
+    runAsTenant: <T>(tenantId: string, fn: () => T): T => tenancy.run(tenantId, fn),
+  };
+
+  return Object.assign(plugin, { server });
 };
\ No newline at end of file
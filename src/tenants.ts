@@ -0,0 +1,179 @@
+// src/tenants.ts
+import { AsyncLocalStorage } from "node:async_hooks";
+import { APIError } from "better-auth/api";
+import { SPICEDB_ERROR_CODES } from "./error-codes";
+import type { SpiceDBSession, TenantOptions } from "./types";
+
+// Separates the tenant from an object type or ID, as in SpiceDB's prefixed definitions
+const SEPARATOR = "/";
+
+// A tenant ID must be valid in the part of the object it prefixes
+const TENANT_ID_PATTERNS = {
+  idPrefix: /^[a-zA-Z0-9_|\-=+]+$/,
+  typePrefix: /^[a-z][a-z0-9_]{1,61}[a-z0-9]$/,
+};
+
+// Request fields holding object types and IDs, checked before an endpoint runs
+const TYPE_FIELDS = new Set(["type", "resourceType", "subjectType", "objectTypes"]);
+const ID_FIELDS = new Set(["id", "resourceId", "subjectId", "resourceIdPrefix"]);
+
+/**
+ * Maps one tenant's objects to SpiceDB's and back
+ */
+export interface TenantScope {
+  tenantId?: string;
+  objectType(type: string): string;
+  objectId(id: string): string;
+  caveatName(name: string): string;
+  // Undefined when the object belongs to another tenant
+  fromObject(objectType: string, objectId: string): { type: string; id: string } | undefined;
+  fromCaveatName(name: string): string;
+}
+
+export interface TenantRequest {
+  headers?: Headers;
+  request?: Request;
+  body?: unknown;
+  query?: unknown;
+  session: () => Promise<SpiceDBSession | null>;
+}
+
+const crossTenant = (reference: string) =>
+  new APIError("BAD_REQUEST", {
+    code: "CROSS_TENANT_REFERENCE",
+    message: `${SPICEDB_ERROR_CODES.CROSS_TENANT_REFERENCE}: ${reference}`,
+  });
+
+const unscoped: TenantScope = {
+  objectType: (type) => type,
+  objectId: (id) => id,
+  caveatName: (name) => name,
+  fromObject: (type, id) => ({ type, id }),
+  fromCaveatName: (name) => name,
+};
+
+// The static `namespace` prefixes IDs and leaves wildcards shared
+const namespaceScope = (namespace: string): TenantScope => ({
+  ...unscoped,
+  objectId: (id) => id === "*" ? id : `${namespace}${id}`,
+  fromObject: (type, id) => {
+    if (id === "*") return { type, id };
+    return id.startsWith(namespace) ? { type, id: id.slice(namespace.length) } : undefined;
+  },
+});
+
+const idPrefixScope = (tenantId: string): TenantScope => {
+  const prefix = `${tenantId}${SEPARATOR}`;
+  return {
+    ...unscoped,
+    tenantId,
+    objectType: (type) => {
+      if (type.includes(SEPARATOR)) throw crossTenant(type);
+      return type;
+    },
+    // A wildcard ID is not prefixed, so it would match the subjects of every tenant
+    objectId: (id) => {
+      if (id === "*" || id.includes(SEPARATOR)) throw crossTenant(id);
+      return `${prefix}${id}`;
+    },
+    fromObject: (type, id) => id.startsWith(prefix) ? { type, id: id.slice(prefix.length) } : undefined,
+  };
+};
+
+const typePrefixScope = (tenantId: string): TenantScope => {
+  const prefix = `${tenantId}${SEPARATOR}`;
+  const qualify = (name: string) => {
+    if (name.includes(SEPARATOR)) throw crossTenant(name);
+    return `${prefix}${name}`;
+  };
+  const strip = (name: string) => name.startsWith(prefix) ? name.slice(prefix.length) : undefined;
+
+  return {
+    tenantId,
+    objectType: qualify,
+    objectId: (id) => id,
+    caveatName: qualify,
+    fromObject: (type, id) => {
+      const stripped = strip(type);
+      return stripped === undefined ? undefined : { type: stripped, id };
+    },
+    fromCaveatName: (name) => strip(name) ?? name,
+  };
+};
+
+// Map every object named in a request, so a foreign one is rejected before the endpoint runs
+const assertReferences = (scope: TenantScope, value: unknown): void => {
+  if (Array.isArray(value)) return value.forEach((item) => assertReferences(scope, item));
+  if (!value || typeof value !== "object") return;
+
+  for (const [key, field] of Object.entries(value)) {
+    // Caveat context is free-form
+    if (key === "context") continue;
+    const strings = typeof field === "string" ? [field] : Array.isArray(field) && field.every((f) => typeof f === "string") ? field : undefined;
+    if (!strings) {
+      assertReferences(scope, field);
+      continue;
+    }
+    if (TYPE_FIELDS.has(key)) strings.forEach((type) => scope.objectType(type));
+    if (ID_FIELDS.has(key)) strings.filter(Boolean).forEach((id) => scope.objectId(id));
+  }
+};
+
+/**
+ * Keeps each request's objects inside its tenant. The tenant is resolved once per
+ * endpoint or hook and kept for everything it calls, so internal helpers need no parameter.
+ */
+export function createTenancy(options: { namespace?: string; tenant?: TenantOptions }) {
+  if (options.namespace && options.tenant) {
+    throw new Error("[spicedb] `namespace` and `tenant` cannot be combined");
+  }
+
+  const storage = new AsyncLocalStorage<TenantScope>();
+  const strategy = options.tenant?.strategy ?? "idPrefix";
+  const fallback = options.namespace ? namespaceScope(options.namespace) : unscoped;
+
+  const scopeFor = (tenantId: string) => {
+    if (!TENANT_ID_PATTERNS[strategy].test(tenantId)) {
+      throw new Error(`[spicedb] Tenant ID "${tenantId}" cannot be used with the ${strategy} strategy`);
+    }
+    return strategy === "typePrefix" ? typePrefixScope(tenantId) : idPrefixScope(tenantId);
+  };
+
+  // With tenants configured, everything must run inside one
+  const current = (): TenantScope => {
+    if (!options.tenant) return fallback;
+    const scope = storage.getStore();
+    if (!scope) {
+      throw new APIError("BAD_REQUEST", { code: "TENANT_REQUIRED", message: SPICEDB_ERROR_CODES.TENANT_REQUIRED });
+    }
+    return scope;
+  };
+
+  // Without a tenant ID, the surrounding tenant stays
+  const run = <T>(tenantId: string | null | undefined, fn: () => T): T =>
+    options.tenant && tenantId ? storage.run(scopeFor(tenantId), fn) : fn();
+
+  // A tenant set by the server (runAsTenant, an outbox item) wins over resolving one
+  const runFor = async <T>(request: TenantRequest, fn: () => Promise<T>): Promise<T> => {
+    if (!options.tenant) return fn();
+
+    let scope = storage.getStore();
+    if (!scope) {
+      const tenantId = await options.tenant.resolve({
+        session: await request.session(),
+        headers: request.headers,
+        request: request.request,
+      });
+      if (!tenantId) {
+        throw new APIError("BAD_REQUEST", { code: "TENANT_REQUIRED", message: SPICEDB_ERROR_CODES.TENANT_REQUIRED });
+      }
+      scope = scopeFor(tenantId);
+    }
+
+    assertReferences(scope, request.body);
+    assertReferences(scope, request.query);
+    return storage.run(scope, fn);
+  };
+
+  return { current, run, runFor };
+}
@@ -0,0 +1,24 @@
+// src/tokens.ts
+import type { ZedTokenEntry, ZedTokenStore } from "./types";
+
+/**
+ * In-memory ZedToken store used when no custom store is configured.
+ * Evicts the oldest entries once `maxEntries` is reached.
+ */
+export function createMemoryTokenStore(maxEntries = 10_000): ZedTokenStore {
+  const entries = new Map<string, ZedTokenEntry>();
+
+  return {
+    get: (key) => entries.get(key),
+    set: (key, entry) => {
+      // Re-insert so the key moves to the end of the eviction order
+      entries.delete(key);
+      entries.set(key, entry);
+
+      if (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest !== undefined) entries.delete(oldest);
+      }
+    },
+  };
+}
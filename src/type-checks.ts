@@ -0,0 +1,27 @@
+// src/type-checks.ts
+// Compile-time checks for `tsc --noEmit`; never imported, run or bundled
+import { createAuthClient } from "better-auth/client";
+import { spiceDBClient } from "./client";
+
+type Schema = {
+  agent: { relations: { owner: "user" }; permissions: "view" | "edit" };
+  user: { relations: {}; permissions: never };
+};
+
+// Client actions are typed by the schema alone, not widened by the endpoints' zod bodies
+async function clientActions() {
+  const client = createAuthClient({ plugins: [spiceDBClient<Schema>()] });
+
+  await client.spicedb.check({ resourceType: "agent", resourceId: "1", permission: "edit" });
+  await client.spicedb.check({ resourceType: "agent", resourceId: "1", permission: "owner" });
+  // @ts-expect-error "veiw" is not a permission on "agent"
+  await client.spicedb.check({ resourceType: "agent", resourceId: "1", permission: "veiw" });
+  // @ts-expect-error "team" is not a resource type
+  await client.spicedb.check({ resourceType: "team", resourceId: "1", permission: "view" });
+  // @ts-expect-error "veiw" is not a permission on "agent"
+  await client.spicedb.checkBulk({ checks: [{ resourceType: "agent", resourceId: "1", permission: "veiw" }] });
+  // @ts-expect-error "veiw" is not a permission on "agent"
+  await client.spicedb.lookupResources({ resourceType: "agent", permission: "veiw" });
+  // Endpoints without a typed action are still inferred
+  await client.spicedb.outbox.drain();
+}
@@ -1,8 +1,126 @@
+import type { AuthContext } from "better-auth";
+
+// ============================================
+// Schema types
+// ============================================
+
+/**
+ * Type-level description of a SpiceDB schema.
+ * Generate one from your schema.zed with `better-auth-spicedb generate`
+ * and pass it as the type argument to `spicedb()` and `spiceDBClient()`.
+ *
+ * Relation values list the allowed subjects, e.g. "user" | "user:*" | "group#member"
+ */
+export type SchemaDefinition = Record<string, {
+    relations: Record<string, string>;
+    permissions: string;
+}>;
+
+/**
+ * Default schema used when no generated schema is supplied.
+ * Accepts any resource type, relation and permission.
+ */
+export type AnySchema = SchemaDefinition;
+
+/**
+ * Resource types (definitions) in the schema
+ */
+export type ResourceType<S extends SchemaDefinition = AnySchema> = keyof S & string;
+
+/**
+ * Relations defined on a resource type
+ */
+export type Relation<
+    S extends SchemaDefinition = AnySchema,
+    R extends ResourceType<S> = ResourceType<S>
+> = keyof S[R]["relations"] & string;
+
+/**
+ * Permissions that can be checked on a resource type.
+ * SpiceDB also allows relations to be checked directly.
+ */
+export type Permission<
+    S extends SchemaDefinition = AnySchema,
+    R extends ResourceType<S> = ResourceType<S>
+> = S[R]["permissions"] | Relation<S, R>;
+
+type SubjectTypeOf<T> = T extends `${infer Type}:*`
+    ? Type
+    : T extends `${infer Type}#${string}`
+        ? Type
+        : T;
+
+/**
+ * Subject types a relation allows, with any subject relation or wildcard removed
+ */
+export type SubjectType<
+    S extends SchemaDefinition = AnySchema,
+    R extends ResourceType<S> = ResourceType<S>,
+    Rel extends Relation<S, R> = Relation<S, R>
+> = SubjectTypeOf<S[R]["relations"][Rel]> & string;
+
+type SubjectRelationOf<T, Sub extends string> = string extends T
+    ? string
+    : T extends `${Sub}#${infer SubRel}`
+        ? SubRel
+        : never;
+
+/**
+ * Subject relations a relation allows for a subject type,
+ * e.g. "member" for `relation viewer: organization#member`
+ */
+export type SubjectRelation<
+    S extends SchemaDefinition = AnySchema,
+    R extends ResourceType<S> = ResourceType<S>,
+    Rel extends Relation<S, R> = Relation<S, R>,
+    Sub extends SubjectType<S, R, Rel> = SubjectType<S, R, Rel>
+> = SubjectRelationOf<S[R]["relations"][Rel], Sub>;
+
+/**
+ * An allowed subject of a relation, as parsed from schema.zed
+ */
+export interface SchemaSubjectType {
+    type: string;
+    relation?: string;
+    wildcard?: boolean;
+    caveat?: string;
+    expiration?: boolean;
+}
+
+export interface SchemaDefinitionNode {
+    name: string;
+    relations: Array<{ name: string; subjectTypes: SchemaSubjectType[] }>;
+    permissions: Array<{ name: string; expression: string }>;
+}
+
+export interface SchemaCaveatNode {
+    name: string;
+    parameters: Array<{ name: string; type: string }>;
+    expression: string;
+}
+
+/**
+ * Result of parsing a schema.zed file with `parseSchema()`
+ */
+export interface ParsedSchema {
+    definitions: SchemaDefinitionNode[];
+    caveats: SchemaCaveatNode[];
+}
+
+// ============================================
+// Server-side types
+// ============================================
+
 /**
  * Configuration for automatic relationship syncing
  * Maps Better Auth events to SpiceDB relationships
  */
-export interface RelationshipMapping {
+export interface RelationshipMappingFor<
+    R extends string,
+    Rel extends string,
+    Sub extends string,
+    SubRel extends string = string
+> {
     /**
      * The Better Auth event to listen for
      * Examples: "user.created", "session.created", or custom events
@@ -13,34 +131,106 @@ export interface RelationshipMapping {
      * The resource object type in your SpiceDB schema
      * Example: "document", "agent", "department"
      */
-    resourceType: string;
+    resourceType: R;
 
     /**
      * The relation name in your SpiceDB schema
      * Example: "owner", "member", "viewer"
      */
-    relation: string;
+    relation: Rel;
 
     /**
      * The subject object type in your SpiceDB schema
      * Example: "user", "organization"
      */
-    subjectType: string;
+    subjectType: Sub;
+
+    /**
+     * Optional relation on the subject, for subject sets
+     * Example: "member" writes organization:acme#member as the subject
+     */
+    subjectRelation?: SubRel;
+
+    /**
+     * Optional caveat written on the relationship
+     * Example: "ip_allowlist"
+     */
+    caveatName?: string;
+
+    /**
+     * Context stored with the caveat, either static or derived from the event
+     * Example: (event) => ({ allowed_cidr: event.office.cidr })
+     */
+    caveatContext?: PermissionContext | ((event: any) => PermissionContext);
+
+    /**
+     * Optional expiration of the relationship, static or derived from the event
+     * Requires `use expiration` in the schema
+     * Example: (event) => event.contract.endsAt
+     */
+    expiresAt?: Date | string | ((event: any) => Date | string | undefined);
 
     /**
      * Function to extract the resource ID from the event
+     * Return an array to write one relationship per resource
      * Example: (event) => event.document.id
      */
-    resourceId: (event: any) => string;
+    resourceId: (event: any) => string | string[];
 
     /**
      * Function to extract the subject ID from the event
+     * Return "*" for a wildcard subject (e.g. public access),
+     * or an array to write one relationship per subject
      * Example: (event) => event.user.id
      */
-    subjectId: (event: any) => string;
+    subjectId: (event: any) => string | string[];
+
+    /**
+     * What to do with the relationships when the event fires
+     * Default: "touch"
+     */
+    operation?: RelationshipOperation;
+
+    /**
+     * Delete the resource's other subjects on this relation before writing,
+     * e.g. moving an agent to another department
+     * Only applies to "touch" and "create"
+     */
+    replace?: boolean;
+
+    /**
+     * Skip the event when this returns false
+     * Example: (event) => event.member.role === "manager"
+     */
+    when?: (event: any) => boolean;
+
+    /**
+     * Yields the events this mapping should have produced, used by reconciliation
+     * Page through your tables (e.g. with `paginate`) instead of loading them at once
+     * Example: ({ adapter }) => paginate(adapter, "agent")
+     */
+    source?: (context: ReconcileSourceContext) => AsyncIterable<any> | Iterable<any>;
+
+    /**
+     * The `source` only yields the rows of `ReconcileSourceContext.tenantId`
+     * Reconciling under `tenant` is refused for mappings without it
+     */
+    tenantAware?: boolean;
 }
 
-export interface SpiceDBPluginOptions {
+/**
+ * A relationship mapping restricted to the resource types, relations
+ * and subject types of the schema
+ */
+export type RelationshipMapping<S extends SchemaDefinition = AnySchema> = {
+    [R in ResourceType<S>]: {
+        [Rel in Relation<S, R>]: {
+            [Sub in SubjectType<S, R, Rel>]: RelationshipMappingFor<R, Rel, Sub, SubjectRelation<S, R, Rel, Sub>>;
+        }[SubjectType<S, R, Rel>];
+    }[Relation<S, R>];
+}[ResourceType<S>];
+
+export interface SpiceDBPluginOptions<S extends SchemaDefinition = AnySchema> {
     /**
      * SpiceDB gRPC endpoint
      * Example: "localhost:50051" or "grpc.authzed.com:443"
@@ -60,97 +250,1202 @@ export interface SpiceDBPluginOptions {
     /**
      * Optional namespace prefix for multi-tenancy
      * Example: "tenant1_" → creates "tenant1_user:123"
+     * For several tenants on one instance, use `tenant` instead
      */
     namespace?: string;
 
     /**
-     * Automatically sync Better Auth organization plugin events
+     * Resolve the tenant of every request and keep its objects apart from other tenants'
+     * Cannot be combined with `namespace`
+     */
+    tenant?: TenantOptions;
+
+    /**
+     * Sync memberships from the Better Auth organization plugin's endpoints
+     * Pass an object to configure role and team relations
      * Requires: better-auth organization plugin
      */
-    syncOrganizations?: boolean;
+    syncOrganizations?: boolean | OrganizationSyncOptions;
 
     /**
      * Custom relationship mappings for automatic syncing
      * Define how your application events map to SpiceDB relationships
      */
-    relationships?: RelationshipMapping[];
+    relationships?: RelationshipMapping<S>[];
+
+    /**
+     * Who may run check, check-bulk and lookup-resources on behalf of
+     * a subject other than the signed-in user.
+     * Default: only admins (user.role includes "admin")
+     */
+    impersonation?: ImpersonationOptions;
+
+    /**
+     * Read consistency and automatic ZedToken tracking
+     * Default: reads use "minimizeLatency" and no tokens are tracked
+     */
+    consistency?: ConsistencyOptions;
+
+    /**
+     * Permission the caller needs on a resource to list its subjects
+     * A string applies to every resource type; a record sets it per type
+     * Admins are always allowed. Default: the permission being looked up
+     * Example: { agent: "share" }
+     */
+    lookupSubjectsPermission?: string | Record<string, string>;
+
+    /**
+     * Maximum number of checks sent in one CheckBulkPermissions call
+     * Larger check-bulk requests are split into chunks of this size
+     * Default: 100
+     */
+    bulkCheckChunkSize?: number;
+
+    /**
+     * Durable outbox for relationship updates triggered by hooks
+     * Adds the `spicedbOutbox` table; run your migrations after enabling it
+     */
+    outbox?: OutboxOptions;
+
+    /**
+     * Remove relationships of deleted users, sessions and resources
+     */
+    cleanup?: CleanupOptions;
+
+    /**
+     * The SpiceDB schema, as text or a path to a schema.zed file
+     * Compared with the stored schema on startup, and used to validate mappings
+     * Pass an object to choose what happens on drift
+     */
+    schema?: string | SchemaOptions;
+
+    /**
+     * Cache check and check-bulk results
+     * Pass true for an in-memory cache with the defaults
+     */
+    cache?: boolean | CheckCacheOptions;
 }
 
-// ============================================
-// Client-side types
-// ============================================
+/**
+ * Caching of permission check results
+ */
+export interface CheckCacheOptions {
+    /**
+     * How long a result is kept. Changes the plugin does not write itself
+     * (and indirect ones, e.g. a group's membership) show up after this at the latest
+     * Default: 60
+     */
+    ttlSeconds?: number;
 
-export interface CheckPermissionParams {
-    resourceType: string;
-    resourceId: string;
-    permission: string;
-    subjectId?: string;
-    subjectType?: string;
-    context?: Record<string, any>;
+    /**
+     * Where results are kept; "secondaryStorage" uses Better Auth's
+     * Default: in-memory LRU store (per server instance)
+     */
+    store?: CheckCacheStore | "secondaryStorage";
+
+    /**
+     * Size of the in-memory store
+     * Default: 10000
+     */
+    maxEntries?: number;
 }
 
-export interface CheckPermissionResult {
-    allowed: boolean;
-    error?: string;
+/**
+ * Key-value storage for cached checks; Better Auth's `secondaryStorage` fits this shape
+ */
+export interface CheckCacheStore {
+    get(key: string): unknown | Promise<unknown>;
+    set(key: string, value: string, ttlSeconds?: number): unknown | Promise<unknown>;
 }
 
-export interface BulkCheckParams {
-    checks: Array<{
-        resourceType: string;
-        resourceId: string;
-        permission: string;
-    }>;
-    subjectId?: string;
-    subjectType?: string;
-    context?: Record<string, any>;
+export interface CheckCacheStats {
+    hits: number;
+    misses: number;
+    /**
+     * Share of lookups answered from the cache, between 0 and 1
+     */
+    hitRate: number;
 }
 
-export interface BulkCheckResult {
-    results: Array<{
-        resourceType: string;
-        resourceId: string;
-        permission: string;
-        allowed: boolean;
-    }>;
+/**
+ * How the configured schema is kept in line with SpiceDB's
+ */
+export interface SchemaOptions {
+    /**
+     * The schema text, or a path to a schema.zed file
+     * Example: "./schema.zed"
+     */
+    source: string;
+
+    /**
+     * What to do on startup when SpiceDB's schema differs from `source`
+     * "write" applies it, "error" fails startup, "warn" only logs the differences
+     * Default: "warn"
+     */
+    onDrift?: "write" | "error" | "warn";
+
+    /**
+     * Check that relationship mappings only use definitions, relations
+     * and subject types of the schema; throws when creating the plugin
+     * Default: true
+     */
+    validateMappings?: boolean;
+}
+
+/**
+ * Outcome of comparing the configured schema with SpiceDB's
+ */
+export interface SchemaSyncResult {
+    inSync: boolean;
+    /**
+     * One line per definition, relation, permission or caveat that differs
+     * Example: 'relation agent#viewer is missing'
+     */
+    differences: string[];
+    written: boolean;
+    zedToken?: string;
+}
+
+/**
+ * How organization plugin data maps onto SpiceDB relationships
+ */
+export interface OrganizationSyncOptions {
+    /**
+     * Resource type organizations are written as
+     * Default: "organization"
+     */
+    resourceType?: string;
+
+    /**
+     * Relation(s) each organization role is written as
+     * Members with several roles get the relations of all of them
+     * Default: { owner: "admin", admin: "admin", member: "member" }
+     */
+    roles?: Record<string, string | string[]>;
+
+    /**
+     * Sync team membership (organization plugin `teams.enabled`)
+     */
+    teams?: boolean | {
+        /**
+         * Default: "team"
+         */
+        resourceType?: string;
+
+        /**
+         * Relation team members are written as
+         * Default: "member"
+         */
+        relation?: string;
+
+        /**
+         * Relation linking a team to its organization, e.g. "organization"
+         * writes team:<teamId>#organization@organization:<organizationId>
+         */
+        organizationRelation?: string;
+    };
+
+    /**
+     * `tenant.resolve` returns the organization ID, so reconciling under a tenant
+     * reads only that organization's members and teams
+     * Without it, organization relations cannot be reconciled under `tenant`
+     */
+    tenantIsOrganization?: boolean;
+
+    /**
+     * Resource types a deleted organization's relationships are removed from, as their subject
+     * SpiceDB filters by resource type, so list every type organizations appear on as a subject
+     * Example: ["department", "agent"] to remove agent:*#organization@organization:<id>
+     */
+    subjectResourceTypes?: string[];
+}
+
+/**
+ * Which relationships to remove when objects are deleted
+ */
+export interface CleanupOptions {
+    /**
+     * Resource types a deleted user's relationships are removed from
+     * SpiceDB filters by resource type, so list every type users appear on as a subject
+     * Example: ["organization", "department", "agent"]
+     */
+    userResourceTypes?: string[];
+
+    /**
+     * Resource types a deleted session's relationships are removed from,
+     * for schemas that use `session` as a subject type
+     */
+    sessionResourceTypes?: string[];
+
+    /**
+     * Events that delete application resources
+     */
+    resources?: ResourceCleanupMapping[];
+
+    /**
+     * Maximum relationships removed per filter; filters matching more are left
+     * untouched and listed in the report's `limitExceeded`
+     * Default: 1000
+     */
+    limit?: number;
+
+    /**
+     * Receives a report of every cleanup
+     * Default: logs a summary
+     */
+    onReport?: (report: CleanupReport) => void | Promise<void>;
 }
 
-export interface LookupResourcesParams {
+/**
+ * Removes every relationship of a resource when `on` is emitted
+ */
+export interface ResourceCleanupMapping {
+    /**
+     * Example: "agent.deleted"
+     */
+    on: string;
+
     resourceType: string;
-    permission: string;
-    subjectId?: string;
-    subjectType?: string;
-    context?: Record<string, any>;
+
+    /**
+     * Example: (event) => event.agent.id
+     */
+    resourceId: (event: any) => string;
+
+    /**
+     * Resource types this resource appears on as a subject
+     * Example: ["agent"] for department, to remove agent:*#department@department:<id>
+     */
+    subjectOf?: string[];
 }
 
-export interface LookupResourcesResult {
-    resourceIds: string[];
+export interface CleanupReport {
+    /**
+     * "user.deleted", "session.deleted" or the event name
+     */
+    trigger: string;
+    object: SubjectReference;
+    removed: RelationshipRecord[];
+    /**
+     * Filters left untouched because they matched more than `limit` relationships
+     */
+    limitExceeded: RelationshipFilter[];
+    zedToken?: string;
 }
 
-export interface WriteRelationshipParams {
-    resource: { type: string; id: string };
-    relation: string;
-    subject: { type: string; id: string };
+/**
+ * Minimal view of a Better Auth session used by the plugin's policies
+ */
+export interface SpiceDBSession {
+    user: {
+        id: string;
+        role?: string | null;
+        [key: string]: any;
+    };
+    session: Record<string, any>;
 }
 
-export interface RelationshipResult {
-    success: boolean;
-    error?: string;
+export interface SubjectReference {
+    type: string;
+    /**
+     * Object ID, or "*" for a wildcard subject (e.g. public access)
+     */
+    id: string;
+    /**
+     * Optional subject relation, e.g. "member" in organization:acme#member
+     */
+    relation?: string;
 }
 
-// ============================================
-// Helper types for better DX
-// ============================================
+/**
+ * Policy for acting on behalf of another subject
+ */
+export interface ImpersonationOptions {
+    /**
+     * User roles allowed to act as any subject
+     * Default: ["admin"]
+     */
+    adminRoles?: string[];
+
+    /**
+     * Subject types any signed-in user may act as, e.g. service accounts
+     * Example: ["service"]
+     */
+    serviceSubjectTypes?: string[];
+
+    /**
+     * Custom policy, consulted when the caller is not an admin and the
+     * subject is not a service subject. Return true to allow.
+     */
+    canActAs?: (session: SpiceDBSession, subject: SubjectReference) => boolean | Promise<boolean>;
+}
+
+/**
+ * Consistency requirement for a read.
+ * Use "atLeastAsFresh" with the ZedToken returned by a write to read your own writes.
+ */
+export type ConsistencyOption =
+    | { mode: "minimizeLatency" }
+    | { mode: "atLeastAsFresh"; token: string }
+    | { mode: "atExactSnapshot"; token: string }
+    | { mode: "fullyConsistent" };
+
+export interface ZedTokenEntry {
+    token: string;
+    writtenAt: number;
+}
 
 /**
- * Helper type for defining permissions in your schema
- * Use this to get type safety when checking permissions
+ * Storage for tracked ZedTokens
  */
-export type Permission = string;
+export interface ZedTokenStore {
+    get(key: string): ZedTokenEntry | undefined | Promise<ZedTokenEntry | undefined>;
+    set(key: string, entry: ZedTokenEntry): void | Promise<void>;
+}
+
+export interface ConsistencyOptions {
+    /**
+     * Consistency used when a read has no explicit mode and no tracked token
+     * Default: "minimizeLatency"
+     */
+    default?: "minimizeLatency" | "fullyConsistent";
+
+    /**
+     * Remember the ZedToken of every write and read at least as fresh as it:
+     * - "session": per Better Auth session that made the write
+     * - "resource": per object (resource and subject) the write touched
+     */
+    track?: "session" | "resource";
+
+    /**
+     * Where tracked tokens are kept
+     * Default: in-memory store (per server instance)
+     */
+    store?: ZedTokenStore;
+}
 
 /**
- * Helper type for resource types
+ * Per-request tenancy; see `SpiceDBPluginOptions.tenant`
  */
-export type ResourceType = string;
+export interface TenantOptions {
+    /**
+     * The tenant of a request, e.g. from the active organization or the request host
+     * Requests without a tenant are rejected
+     */
+    resolve: (ctx: TenantContext) => string | null | undefined | Promise<string | null | undefined>;
+
+    /**
+     * How objects are qualified with the tenant
+     * - "idPrefix": `agent:tenant1/123`; object IDs must not contain "/" and wildcard subjects are rejected
+     * - "typePrefix": `tenant1/agent:123`; needs the schema's definitions and caveats prefixed per tenant
+     * Default: "idPrefix"
+     */
+    strategy?: "idPrefix" | "typePrefix";
+}
+
+/**
+ * Passed to `TenantOptions.resolve`; server calls have no headers or request
+ */
+export interface TenantContext {
+    session: SpiceDBSession | null;
+    headers?: Headers;
+    request?: Request;
+}
+
+/**
+ * Extra information passed to relationship hooks by `createEventEmitter`
+ */
+export interface HookContext {
+    /**
+     * Session that caused the event, used for per-session token tracking
+     */
+    session?: SpiceDBSession | null;
+
+    /**
+     * Adapter (or transaction adapter) the outbox row is written with,
+     * so it commits together with your own Better Auth writes
+     */
+    adapter?: AuthContext["adapter"];
+
+    /**
+     * Key used to deduplicate outbox rows for the same change while it is still waiting
+     * Default: none, so every event is queued
+     */
+    idempotencyKey?: string;
+
+    /**
+     * Tenant the event belongs to, when `tenant` is configured
+     * Default: the tenant of the surrounding `server.runAsTenant()`
+     */
+    tenantId?: string;
+}
+
+export interface OutboxOptions {
+    /**
+     * Store relationship updates from hooks in the `spicedbOutbox` table
+     * and apply them from a background worker instead of writing directly
+     */
+    enabled: boolean;
+
+    /**
+     * Start the polling worker when Better Auth initialises
+     * Set to false to drain manually, e.g. from a cron job via `auth.api.spicedbDrainOutbox()`
+     * Default: true
+     */
+    autoStart?: boolean;
+
+    /**
+     * Attempts before an item is dead-lettered (status "failed")
+     * Default: 10
+     */
+    maxAttempts?: number;
+
+    /**
+     * First retry delay; doubles on every attempt up to `maxDelayMs`
+     * Default: 1000
+     */
+    baseDelayMs?: number;
+
+    /**
+     * Default: 300000 (5 minutes)
+     */
+    maxDelayMs?: number;
+
+    /**
+     * Items applied per drain
+     * Default: 50
+     */
+    batchSize?: number;
+
+    /**
+     * Default: 5000
+     */
+    pollIntervalMs?: number;
+}
+
+export interface OutboxItem {
+    id: string;
+    event: string;
+    idempotencyKey: string;
+    updates: RelationshipUpdate[];
+    /**
+     * Tenant the updates are written for, when `tenant` is configured
+     */
+    tenantId?: string | null;
+    status: "pending" | "processing" | "failed";
+    attempts: number;
+    nextAttemptAt: Date;
+    lastError?: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Passed to `RelationshipMapping.source`
+ */
+export interface ReconcileSourceContext {
+    adapter: AuthContext["adapter"];
+    pageSize: number;
+    /**
+     * Tenant being reconciled, when `tenant` is configured
+     */
+    tenantId?: string;
+}
+
+/**
+ * Who a server-side call runs as: the session in the request headers,
+ * or a user the server has already authenticated
+ */
+export type ServerCaller =
+    | { headers: Headers; userId?: never }
+    | { userId: string; headers?: never };
+
+/**
+ * A Better Auth endpoint or hook context: checks run as its request's session,
+ * or as the session it has already loaded
+ */
+export interface EndpointCaller {
+    headers?: Headers;
+    context: { session?: SpiceDBSession | null };
+}
+
+/**
+ * The parts of a SvelteKit RequestEvent the permission handle reads
+ */
+export interface PermissionRequestEvent {
+    request: Request;
+    url: URL;
+    params: Partial<Record<string, string>>;
+    route: { id: string | null };
+}
+
+/**
+ * A route the SvelteKit handle protects with a permission check
+ */
+export type PermissionRule<S extends SchemaDefinition = AnySchema> = {
+    [R in ResourceType<S>]: {
+        /**
+         * Route ID (e.g. "/agents/[id]") or a pattern tested against the pathname
+         */
+        route: string | RegExp;
+        /**
+         * Only guard these HTTP methods
+         * Default: every method
+         */
+        methods?: string[];
+        resourceType: R;
+        /**
+         * Example: (event) => event.params.id
+         */
+        resourceId: (event: PermissionRequestEvent) => string | null | undefined | Promise<string | null | undefined>;
+        permission: Permission<S, R>;
+    };
+}[ResourceType<S>];
+
+/**
+ * Checks for the duration of one request: calls made in the same tick are sent
+ * as one check-bulk request, and answers are reused until the request ends
+ */
+export interface PermissionLoader<S extends SchemaDefinition = AnySchema> {
+    /**
+     * `reason` is "unauthenticated" or "forbidden" when the caller may not check at all
+     */
+    check(item: BulkCheckItem<S>): Promise<CheckPermissionResult & { reason?: string }>;
+    /**
+     * Forget every answer, e.g. after the request wrote relationships
+     */
+    clear(): void;
+}
+
+/**
+ * Turns permitted resource IDs into a query filter for one ORM or query builder
+ */
+export interface FilterAdapter<Column, Filter> {
+    /**
+     * Rows whose ID is in a short list, e.g. `id IN (...)`
+     */
+    inList(column: Column, ids: string[]): Filter;
+    /**
+     * Rows whose ID is in a long list, sent as one parameter and joined in the database
+     */
+    join(column: Column, ids: string[]): Filter;
+}
+
+export interface ResourceFilterOptions {
+    /**
+     * Most IDs sent as an `IN` list
+     * Default: 500
+     */
+    inListMax?: number;
+    /**
+     * Most IDs joined in the database; with more, rows are checked after they are read
+     * Default: 10000
+     */
+    joinMax?: number;
+    /**
+     * Rows read per query when rows are checked after they are read
+     * Default: 100
+     */
+    batchSize?: number;
+}
+
+export type ResourceFilterParams<S extends SchemaDefinition = AnySchema, Column = unknown> = {
+    [R in ResourceType<S>]: {
+        /**
+         * The column holding the resource ID
+         */
+        column: Column;
+        resourceType: R;
+        permission: Permission<S, R>;
+        context?: PermissionContext;
+        consistency?: ConsistencyOption;
+    };
+}[ResourceType<S>] & ServerCaller;
+
+export interface ResourceFilter<Filter> {
+    /**
+     * "in" and "join" filter in the database, "postFilter" checks the rows read
+     */
+    strategy: "in" | "join" | "postFilter";
+    /**
+     * Add to the query's WHERE clause; absent when rows must go through `filterRows`
+     */
+    where?: Filter;
+    /**
+     * Keep the rows the caller has the permission on; rows a `where` already filtered are kept as they are
+     */
+    filterRows<T>(rows: T[], id: (row: T) => string): Promise<T[]>;
+}
+
+export type PermittedPageParams<S extends SchemaDefinition = AnySchema, Column = unknown, Filter = unknown, T = any> =
+    ResourceFilterParams<S, Column> & {
+        /**
+         * Read up to `limit` rows ordered by the ID column, matching `where`
+         * when given and with an ID after `after` when given
+         */
+        fetch(query: { where?: Filter; after?: string; limit: number }): Promise<T[]>;
+        id(row: T): string;
+        limit: number;
+        /**
+         * `cursor` from the previous page
+         */
+        cursor?: string;
+    };
+
+export interface PermittedPage<T> {
+    items: T[];
+    /**
+     * Pass as `cursor` to get the next page; absent on the last page
+     */
+    cursor?: string;
+    strategy: ResourceFilter<unknown>["strategy"];
+}
+
+// ============================================
+// Client-side types
+// ============================================
+
+export type CheckPermissionParams<S extends SchemaDefinition = AnySchema> = {
+    [R in ResourceType<S>]: {
+        resourceType: R;
+        resourceId: string;
+        permission: Permission<S, R>;
+        subjectId?: string;
+        subjectType?: ResourceType<S>;
+        context?: PermissionContext;
+        consistency?: ConsistencyOption;
+        /**
+         * Return SpiceDB's debug trace of the check (admins only)
+         */
+        explain?: boolean;
+    };
+}[ResourceType<S>];
+
+export interface CheckPermissionResult {
+    allowed: boolean;
+    /**
+     * Caveat parameters that were missing from the context, when the
+     * result depends on a caveat that could not be fully evaluated
+     */
+    missingContext?: string[];
+    /**
+     * Set when the check was made with `explain: true`
+     */
+    explanation?: CheckExplanation;
+    error?: string;
+}
+
+/**
+ * One step of a check's debug trace
+ */
+export interface CheckTraceNode {
+    resource: { type: string; id: string };
+    /**
+     * Permission or relation evaluated at this step
+     */
+    permission: string;
+    kind: "permission" | "relation";
+    subject: SubjectReference;
+    result: "allowed" | "denied" | "conditional";
+    /**
+     * Caveat expression evaluated at this step, if any
+     */
+    caveat?: string;
+    /**
+     * The result came from SpiceDB's cache, so no children were recorded
+     */
+    cached?: boolean;
+    children: CheckTraceNode[];
+}
+
+export interface CheckExplanation {
+    /**
+     * Steps from the checked permission down to the relation that decided it,
+     * e.g. ["agent:1#view", "agent:1#department", "department:eng#member"]
+     * For a denial this is the first branch SpiceDB tried; see `trace` for all
+     */
+    path: string[];
+    trace: CheckTraceNode;
+}
+
+/**
+ * Normalized ExpandPermissionTree node: either a set operation over
+ * children or a leaf listing the subjects of a relation
+ */
+export type PermissionTreeNode = {
+    object: { type: string; id: string };
+    relation: string;
+} & (
+    | { operation: "union" | "intersection" | "exclusion"; children: PermissionTreeNode[] }
+    | { subjects: SubjectReference[] }
+);
+
+export type ExpandPermissionParams<S extends SchemaDefinition = AnySchema> = {
+    [R in ResourceType<S>]: {
+        resourceType: R;
+        resourceId: string;
+        permission: Permission<S, R> | Relation<S, R>;
+        consistency?: ConsistencyOption;
+    };
+}[ResourceType<S>];
+
+export interface ExpandPermissionResult {
+    tree?: PermissionTreeNode;
+    zedToken?: string;
+    error?: string;
+}
+
+export type BulkCheckItem<S extends SchemaDefinition = AnySchema> = {
+    [R in ResourceType<S>]: {
+        resourceType: R;
+        resourceId: string;
+        permission: Permission<S, R>;
+        /**
+         * Overrides the request-level subject for this check
+         */
+        subjectId?: string;
+        subjectType?: ResourceType<S>;
+        /**
+         * Caveat context for this check, merged over the request-level context
+         */
+        context?: PermissionContext;
+    };
+}[ResourceType<S>];
+
+export interface BulkCheckParams<S extends SchemaDefinition = AnySchema> {
+    checks: Array<BulkCheckItem<S>>;
+    subjectId?: string;
+    subjectType?: ResourceType<S>;
+    context?: PermissionContext;
+    consistency?: ConsistencyOption;
+}
+
+export interface BulkCheckResult<S extends SchemaDefinition = AnySchema> {
+    results: Array<BulkCheckItem<S> & {
+        allowed: boolean;
+        /**
+         * Caveat parameters that were missing from the context, as for a single check
+         */
+        missingContext?: string[];
+        /**
+         * Set when this check failed; other checks in the batch are unaffected
+         */
+        error?: string;
+    }>;
+}
+
+/**
+ * Current answer of a permission store; `allowed` keeps its last value while reloading
+ */
+export interface PermissionState {
+    allowed: boolean;
+    loading: boolean;
+    error?: string;
+}
+
+/**
+ * A reactive permission check, usable as a Svelte store or with
+ * React's `useSyncExternalStore(store.listen, store.get)`
+ */
+export interface PermissionStore {
+    get(): PermissionState;
+    /**
+     * Calls `run` with the current state now and on every change
+     */
+    subscribe(run: (state: PermissionState) => void): () => void;
+    /**
+     * Calls `listener` on every change only
+     */
+    listen(listener: (state: PermissionState) => void): () => void;
+}
+
+export type LookupResourcesParams<S extends SchemaDefinition = AnySchema> = {
+    [R in ResourceType<S>]: {
+        resourceType: R;
+        permission: Permission<S, R>;
+        subjectId?: string;
+        subjectType?: ResourceType<S>;
+        context?: PermissionContext;
+        consistency?: ConsistencyOption;
+        /**
+         * Maximum results in this page; omit to return every resource
+         */
+        limit?: number;
+        /**
+         * `cursor` from the previous page
+         * Without `limit`, pages hold 100 results
+         */
+        cursor?: string;
+    };
+}[ResourceType<S>];
+
+export interface LookupResource {
+    id: string;
+    /**
+     * The permission depends on a caveat that could not be fully evaluated
+     */
+    conditional: boolean;
+    missingContext?: string[];
+}
+
+export interface LookupResourcesResult {
+    /**
+     * Resources the subject definitely has the permission on
+     */
+    resourceIds: string[];
+    /**
+     * Every result, including conditional ones
+     */
+    resources: LookupResource[];
+    /**
+     * Pass as `cursor` to get the next page; absent on the last page
+     */
+    cursor?: string;
+    error?: string;
+}
+
+/**
+ * Server-side lookup, streamed with `plugin.server.lookupResources()`
+ */
+export interface LookupResourcesStreamParams {
+    resourceType: string;
+    permission: string;
+    subject: SubjectReference;
+    context?: PermissionContext;
+    consistency?: ConsistencyOption;
+    /**
+     * Results fetched per request to SpiceDB
+     * Default: 1000
+     */
+    pageSize?: number;
+}
+
+export type LookupSubjectsParams<S extends SchemaDefinition = AnySchema> = {
+    [R in ResourceType<S>]: {
+        resourceType: R;
+        resourceId: string;
+        permission: Permission<S, R>;
+        /**
+         * Default: "user"
+         */
+        subjectType?: ResourceType<S>;
+        /**
+         * Only return subject sets with this relation, e.g. "member"
+         */
+        subjectRelation?: string;
+        context?: PermissionContext;
+        consistency?: ConsistencyOption;
+    };
+}[ResourceType<S>];
+
+export interface LookupSubject {
+    id: string;
+    /**
+     * The permission depends on a caveat that could not be fully evaluated
+     */
+    conditional: boolean;
+    missingContext?: string[];
+}
+
+export interface LookupSubjectsResult {
+    subjects: LookupSubject[];
+    /**
+     * Set when every subject of the type has the permission (a `type:*` grant)
+     */
+    wildcard?: LookupSubject & {
+        /**
+         * Subjects excluded from the wildcard, e.g. by an exclusion (`-`) in the schema
+         */
+        excludedIds: string[];
+    };
+    error?: string;
+}
+
+export type WriteRelationshipParams<S extends SchemaDefinition = AnySchema> = {
+    [R in ResourceType<S>]: {
+        [Rel in Relation<S, R>]: {
+            [Sub in SubjectType<S, R, Rel>]: {
+                resource: { type: R; id: string };
+                relation: Rel;
+                /**
+                 * Use id "*" for a wildcard subject
+                 */
+                subject: { type: Sub; id: string; relation?: SubjectRelation<S, R, Rel, Sub> };
+                caveat?: RelationshipCaveat;
+                /**
+                 * Requires `use expiration` in the schema
+                 */
+                expiresAt?: Date | string;
+            };
+        }[SubjectType<S, R, Rel>];
+    }[Relation<S, R>];
+}[ResourceType<S>];
+
+export type RelationshipOperation = "touch" | "create" | "delete";
+
+/**
+ * One update in a transactional write
+ * - "touch": create or overwrite
+ * - "create": fail if the relationship already exists
+ * - "delete": remove if present
+ */
+export type RelationshipUpdate<S extends SchemaDefinition = AnySchema> = WriteRelationshipParams<S> & {
+    operation: RelationshipOperation;
+};
+
+/**
+ * Selects relationships by resource, relation and subject.
+ * Omitted fields match anything.
+ */
+export interface RelationshipFilter<S extends SchemaDefinition = AnySchema> {
+    resourceType: ResourceType<S>;
+    resourceId?: string;
+    resourceIdPrefix?: string;
+    relation?: string;
+    subject?: {
+        type: ResourceType<S>;
+        id?: string;
+        relation?: string;
+    };
+}
+
+/**
+ * Condition that must hold for a transactional write to apply
+ */
+export interface Precondition<S extends SchemaDefinition = AnySchema> {
+    operation: "mustMatch" | "mustNotMatch";
+    filter: RelationshipFilter<S>;
+}
+
+export interface ReadRelationshipsParams<S extends SchemaDefinition = AnySchema> {
+    filter: RelationshipFilter<S>;
+    /**
+     * Default: 100, maximum: 1000
+     */
+    limit?: number;
+    /**
+     * `cursor` from the previous page
+     */
+    cursor?: string;
+    /**
+     * Pass `{ mode: "atExactSnapshot", token }` with the first page's `zedToken`
+     * to read every page at the same revision
+     */
+    consistency?: ConsistencyOption;
+}
+
+export interface ReadRelationshipsResult {
+    relationships: RelationshipRecord[];
+    /**
+     * Pass as `cursor` to get the next page; absent on the last page
+     */
+    cursor?: string;
+    zedToken?: string;
+    error?: string;
+}
+
+export interface DeleteRelationshipsParams<S extends SchemaDefinition = AnySchema> {
+    filter: RelationshipFilter<S>;
+    preconditions?: Array<Precondition<S>>;
+    /**
+     * Maximum relationships to delete; without `allowPartialDeletions`,
+     * nothing is deleted when more match
+     */
+    limit?: number;
+    /**
+     * Delete up to `limit` relationships and report `complete: false` if more match
+     */
+    allowPartialDeletions?: boolean;
+    /**
+     * Only count the matching relationships and evaluate the preconditions
+     */
+    dryRun?: boolean;
+}
+
+export interface DeleteRelationshipsResult {
+    dryRun: boolean;
+    /**
+     * Relationships matching the filter (dry run only)
+     */
+    matched?: number;
+    deleted: number;
+    /**
+     * False when matching relationships were left behind by a partial deletion,
+     * or in a dry run, when more than `limit` match
+     */
+    complete: boolean;
+    /**
+     * Whether the preconditions currently hold (dry run only)
+     */
+    preconditionsMet?: boolean;
+    zedToken?: string;
+    error?: string;
+}
+
+export interface WriteRelationshipsParams<S extends SchemaDefinition = AnySchema> {
+    updates: Array<RelationshipUpdate<S>>;
+    preconditions?: Array<Precondition<S>>;
+}
+
+/**
+ * Caveat attached to a written relationship
+ */
+export interface RelationshipCaveat {
+    name: string;
+    context?: PermissionContext;
+}
+
+/**
+ * A relationship as stored in SpiceDB, with the namespace removed
+ */
+export interface RelationshipRecord {
+    resource: { type: string; id: string };
+    relation: string;
+    subject: SubjectReference;
+    caveat?: RelationshipCaveat;
+    expiresAt?: Date;
+}
+
+/**
+ * A relationship written or deleted in SpiceDB, as seen by `watch()`
+ */
+export interface RelationshipChange extends RelationshipRecord {
+    operation: RelationshipOperation;
+    /**
+     * Revision the change was part of; resume after it with `fromToken`
+     */
+    zedToken: string;
+}
+
+export interface WatchParams {
+    /**
+     * Only watch relationships on these resource types
+     * Default: every type
+     */
+    objectTypes?: string[];
+
+    /**
+     * Resume after this revision, e.g. the last checkpointed ZedToken
+     * Default: changes from now on
+     */
+    fromToken?: string;
+
+    /**
+     * Called after every change of a revision has been consumed
+     * Persist the token to resume from it after a restart
+     */
+    onCheckpoint?: (zedToken: string) => void | Promise<void>;
+
+    /**
+     * Reconnect with exponential backoff when the stream drops
+     * Pass false to end the watch on the first disconnect instead
+     */
+    reconnect?: false | {
+        /**
+         * Default: 500
+         */
+        baseDelayMs?: number;
+        /**
+         * Default: 30000
+         */
+        maxDelayMs?: number;
+        /**
+         * Consecutive failed attempts before giving up
+         * Default: unlimited
+         */
+        maxAttempts?: number;
+    };
+
+    /**
+     * Ends the watch when aborted
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * Options for `authClient.spicedb.watch()`
+ */
+export interface WatchChangesOptions {
+    /**
+     * Only receive changes on these resource types
+     */
+    objectTypes?: string[];
+
+    /**
+     * Called when the connection fails; it is retried unless the request was rejected
+     */
+    onError?: (error: unknown) => void;
+}
+
+export interface ReconcileParams {
+    /**
+     * Only report differences without writing
+     * Default: true
+     */
+    dryRun?: boolean;
+
+    /**
+     * Limit reconciliation to these resource types
+     */
+    resourceTypes?: string[];
+
+    /**
+     * Page size for reading sources and SpiceDB
+     * Default: 500
+     */
+    pageSize?: number;
+
+    /**
+     * Maximum missing/extra relationships listed per group; counts are always complete
+     * Default: 100
+     */
+    maxReported?: number;
+}
+
+export interface ReconcileGroupReport {
+    resourceType: string;
+    relation: string;
+    subjectType: string;
+    subjectRelation?: string;
+    expected: number;
+    actual: number;
+    missingCount: number;
+    extraCount: number;
+    /**
+     * Expected by the source but absent from SpiceDB
+     */
+    missing: RelationshipRecord[];
+    /**
+     * Present in SpiceDB but not produced by the source
+     */
+    extra: RelationshipRecord[];
+}
+
+export interface ReconcileResult {
+    dryRun: boolean;
+    groups: ReconcileGroupReport[];
+    /**
+     * Groups not reconciled because a mapping in them has no `source`
+     */
+    skipped: string[];
+    written: number;
+    deleted: number;
+    zedToken?: string;
+    error?: string;
+}
+
+export interface RelationshipResult {
+    success: boolean;
+    /**
+     * ZedToken of the write; pass it as `{ mode: "atLeastAsFresh", token }` to read your own write
+     */
+    zedToken?: string;
+    error?: string;
+}
+
+// ============================================
+// Helper types for better DX
+// ============================================
 
 /**
  * Context for caveat evaluation
@@ -0,0 +1,88 @@
+// src/watch.ts
+import { v1 } from "@authzed/authzed-node";
+import type { RelationshipChange, WatchParams } from "./types";
+
+// gRPC codes of transient failures: cancelled, unknown, deadline exceeded,
+// resource exhausted, aborted, internal and unavailable
+const RETRYABLE_CODES = new Set([1, 2, 4, 8, 10, 13, 14]);
+
+export interface WatchStream extends AsyncIterable<v1.WatchResponse> {
+  cancel(): void;
+  on(event: "error", listener: (err: unknown) => void): unknown;
+}
+
+export interface WatchDeps {
+  openStream: (request: v1.WatchRequest) => WatchStream;
+  // Returns undefined for changes the app should not see
+  toChange: (update: v1.RelationshipUpdate, zedToken: string) => RelationshipChange | undefined;
+}
+
+// Resolves early when the signal aborts
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+
+/**
+ * Streams relationship changes from SpiceDB's Watch API, reconnecting
+ * from the last seen revision when the stream drops
+ */
+export function createWatcher(deps: WatchDeps) {
+  return async function* watch(params: WatchParams = {}): AsyncGenerator<RelationshipChange> {
+    const reconnect = params.reconnect === false
+      ? undefined
+      : { baseDelayMs: 500, maxDelayMs: 30_000, maxAttempts: Infinity, ...params.reconnect };
+    let token = params.fromToken;
+    let failures = 0;
+
+    while (!params.signal?.aborted) {
+      const stream = deps.openStream(v1.WatchRequest.create({
+        optionalObjectTypes: params.objectTypes ?? [],
+        optionalStartCursor: token ? v1.ZedToken.create({ token }) : undefined,
+      }));
+      const cancel = () => stream.cancel();
+      params.signal?.addEventListener("abort", cancel, { once: true });
+
+      let error: any;
+      try {
+        for await (const response of stream) {
+          failures = 0;
+          const zedToken = response.changesThrough?.token ?? token ?? "";
+          for (const update of response.updates) {
+            const change = deps.toChange(update, zedToken);
+            if (change) yield change;
+          }
+          if (zedToken && zedToken !== token) {
+            token = zedToken;
+            await params.onCheckpoint?.(zedToken);
+          }
+        }
+      } catch (err) {
+        error = err;
+      } finally {
+        params.signal?.removeEventListener("abort", cancel);
+        // Cancelling emits CANCELLED, which nothing listens for once iteration has stopped
+        stream.on("error", () => {});
+        stream.cancel();
+      }
+
+      if (params.signal?.aborted) return;
+      if (error && (!reconnect || !RETRYABLE_CODES.has(error.code))) throw error;
+      if (!reconnect) return;
+      if (++failures > reconnect.maxAttempts) {
+        throw error ?? new Error("[spicedb] Watch stream ended too many times");
+      }
+
+      // The server can also end the stream cleanly, e.g. when restarting; both resume from `token`
+      const delay = Math.min(reconnect.maxDelayMs, reconnect.baseDelayMs * 2 ** (failures - 1));
+      console.warn(`[spicedb] Watch disconnected${error ? ` (${error.message})` : ""}, reconnecting in ${delay}ms`);
+      await sleep(delay, params.signal);
+    }
+  };
+}
@@ -3,7 +3,12 @@ import { betterAuth } from "better-auth";
 import { drizzleAdapter } from "better-auth/adapters/drizzle";
 import { db } from "./db";
 import * as schema from "./db/schema";
-import { spicedb, createEventEmitter } from "better-auth-spicedb";
+import { spicedb, createEventEmitter, createSpiceDBApi, paginate, type ReconcileSourceContext } from "better-auth-spicedb";
+
+// Used by reconciliation to compare the agent table with SpiceDB, one page at a time
+async function* agentSource({ adapter, pageSize }: ReconcileSourceContext) {
+  for await (const agent of paginate(adapter, "agent", { pageSize })) yield { agent };
+}
 
 const spiceDBPlugin = spicedb({
   endpoint: "localhost:50051",
@@ -19,6 +24,7 @@ const spiceDBPlugin = spicedb({
       subjectType: "user",
       resourceId: (event) => event.agent.id,
       subjectId: (event) => event.agent.createdBy,
+      source: agentSource,
     },
     // 2. Agent -> Department
     {
@@ -28,6 +34,7 @@ const spiceDBPlugin = spicedb({
       subjectType: "department",
       resourceId: (event) => event.agent.id,
       subjectId: (event) => event.agent.departmentId,
+      source: agentSource,
     },
     // 3. User -> Department Member
     {
@@ -58,3 +65,5 @@ export const auth = betterAuth({
 });
 
 export const emitAuthEvent = createEventEmitter(spiceDBPlugin);
+
+export const spicedbApi = createSpiceDBApi(auth);
\ No newline at end of file
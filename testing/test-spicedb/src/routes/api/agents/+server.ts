@@ -4,7 +4,7 @@ import type { RequestHandler } from '@sveltejs/kit';
 import { db } from '$lib/db';
 import { agent } from '$lib/db/schema';
 import { inArray } from 'drizzle-orm';
-import { auth } from '$lib/auth';
+import { auth, spicedbApi } from '$lib/auth';
 
 /**
  * WARNING: This pattern is NOT recommended unless an API route is absolutely necessary.
@@ -24,7 +24,7 @@ import { auth } from '$lib/auth';
  * 3. Only returns agents user has VIEW permission for
  * 4. Protected against IDOR attacks
  */
-export const GET: RequestHandler = async ({ url, request, fetch }) => {
+export const GET: RequestHandler = async ({ url, request }) => {
   // ============================================
   // 1. AUTHENTICATION CHECK
   // ============================================
@@ -68,32 +68,20 @@ export const GET: RequestHandler = async ({ url, request, fetch }) => {
     // ============================================
     console.log(`[API] Checking permissions for ${requestedIds.length} agents for user ${session.user.id}`);
     
-    // Use the plugin's bulk check endpoint
-    const permResponse = await fetch('/api/auth/spicedb/check-bulk', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Cookie': request.headers.get('cookie') || ''
-      },
-      body: JSON.stringify({
-        checks: requestedIds.map(id => ({
-          resourceType: 'agent',
-          resourceId: id,
-          permission: 'view'
-        }))
-      })
+    // Use the plugin's server API, as the signed-in user
+    const { results } = await spicedbApi.checkBulk({
+      userId: session.user.id,
+      checks: requestedIds.map(id => ({
+        resourceType: 'agent',
+        resourceId: id,
+        permission: 'view'
+      }))
     });
     
-    if (!permResponse.ok) {
-      throw new Error('Permission check failed');
-    }
-    
-    const { results } = await permResponse.json();
-    
     // Filter to only allowed IDs
     const allowedIds = results
-      .filter((check: any) => check.allowed)
-      .map((check: any) => check.resourceId);
+      .filter((check) => check.allowed)
+      .map((check) => check.resourceId);
     
     console.log(`[API] User authorized for ${allowedIds.length}/${requestedIds.length} agents`);
     
@@ -4,6 +4,8 @@ export default defineConfig({
   entry: {
     index: 'src/index.ts',
     client: 'src/client.ts',
+    drizzle: 'src/drizzle.ts',
+    cli: 'src/cli.ts',
   },
   format: ['cjs', 'esm'],
   dts: true,
@@ -14,7 +16,7 @@ export default defineConfig({
       'better-auth', 
       'better-auth/svelte', 
       'better-auth/client',
-      '@authzed/authzed-node', 
-      'google-protobuf'       
+      '@authzed/authzed-node',
+      'drizzle-orm'
   ],
 });
\ No newline at end of file